@@ -4,6 +4,9 @@ const API_BASE = '';
 let books = [];
 let authors = [];
 let borrowings = [];
+let patrons = [];
+let accessToken = localStorage.getItem('accessToken');
+let currentUser = JSON.parse(localStorage.getItem('currentUser') || 'null');
 let booksPagination = {
   currentPage: 1,
   limit: 20,
@@ -15,9 +18,96 @@ let booksPagination = {
 document.addEventListener('DOMContentLoaded', () => {
   setupTabs();
   setupFormHandlers();
+  updateAuthUi();
   loadInitialData();
 });
 
+// Authentication
+// Sends the bearer token with API calls once signed in
+async function apiFetch(url, options = {}) {
+  const headers = { ...(options.headers || {}) };
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+  const response = await fetch(url, { ...options, headers });
+  if (response.status === 401 && accessToken) {
+    // Token expired or revoked - fall back to anonymous browsing
+    clearSession();
+  }
+  return response;
+}
+
+// Collects every item of a paginated list by following links.next
+async function fetchAllPages(url) {
+  const items = [];
+  let next = url;
+  while (next) {
+    const response = await apiFetch(next);
+    if (!response.ok) {
+      return { ok: false, items };
+    }
+    const page = await response.json();
+    items.push(...page.data);
+    next = page.links.next ? `${API_BASE}${page.links.next}` : null;
+  }
+  return { ok: true, items };
+}
+
+async function signIn(email, password) {
+  try {
+    const response = await fetch(`${API_BASE}/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to sign in');
+    }
+    const result = await response.json();
+    accessToken = result.accessToken;
+    currentUser = result.user;
+    localStorage.setItem('accessToken', accessToken);
+    localStorage.setItem('currentUser', JSON.stringify(currentUser));
+    updateAuthUi();
+    closeModal('login-modal');
+    showAlert(`Signed in as ${currentUser.email}`, 'success');
+    await loadInitialData();
+  } catch (error) {
+    showAlert('Error signing in: ' + error.message, 'error');
+  }
+}
+
+function signOut() {
+  clearSession();
+  showAlert('Signed out', 'success');
+  loadInitialData();
+}
+
+function clearSession() {
+  accessToken = null;
+  currentUser = null;
+  localStorage.removeItem('accessToken');
+  localStorage.removeItem('currentUser');
+  updateAuthUi();
+}
+
+function toggleSignIn() {
+  if (accessToken) {
+    signOut();
+  } else {
+    document.getElementById('login-form').reset();
+    document.getElementById('login-modal').classList.add('active');
+  }
+}
+
+function updateAuthUi() {
+  const label = document.getElementById('auth-label');
+  if (label) {
+    label.textContent = currentUser ? `Sign out (${currentUser.email})` : 'Sign in';
+  }
+}
+
 // Tab switching
 function setupTabs() {
   const tabButtons = document.querySelectorAll('.tab-btn');
@@ -54,7 +144,7 @@ function switchTab(tabName) {
 
 // Load initial data
 async function loadInitialData() {
-  await Promise.all([loadAuthors(), loadBooks(), loadBorrowings()]);
+  await Promise.all([loadAuthors(), loadBooks(), loadPatrons(), loadBorrowings()]);
 }
 
 // API Functions - Books
@@ -65,13 +155,13 @@ async function loadBooks(page = 1, limit = 20) {
     const genreFilter = document.getElementById('book-genre-filter')?.value || '';
     const availabilityFilter = document.getElementById('book-availability-filter')?.value || '';
 
-    let url = `${API_BASE}/books?page=${page}&limit=${limit}`;
+    let url = `${API_BASE}/books?page=${page}&limit=${limit}&include=author`;
     if (authorFilter) url += `&authorId=${authorFilter}`;
     if (genreFilter) url += `&genre=${genreFilter}`;
     if (availabilityFilter === 'available') url += `&available=true`;
     if (availabilityFilter === 'unavailable') url += `&available=false`;
 
-    const response = await fetch(url);
+    const response = await apiFetch(url);
     const result = await response.json();
 
     // Handle both paginated and non-paginated responses (for backward compatibility)
@@ -102,8 +192,7 @@ async function loadBooks(page = 1, limit = 20) {
       booksToRender = books.filter((book) => {
         const title = book.title?.toLowerCase() || '';
         const isbn = book.isbn?.toLowerCase() || '';
-        const author = authors.find((a) => a.id === book.authorId);
-        const authorName = author ? `${author.firstName} ${author.lastName}`.toLowerCase() : '';
+        const authorName = book.author?.fullName.toLowerCase() || '';
         return (
           title.includes(searchLower) ||
           isbn.includes(searchLower) ||
@@ -125,7 +214,7 @@ async function loadBooks(page = 1, limit = 20) {
 
 async function createBook(bookData) {
   try {
-    const response = await fetch(`${API_BASE}/books`, {
+    const response = await apiFetch(`${API_BASE}/books`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(bookData),
@@ -141,7 +230,7 @@ async function createBook(bookData) {
 
 async function updateBook(id, bookData) {
   try {
-    const response = await fetch(`${API_BASE}/books/${id}`, {
+    const response = await apiFetch(`${API_BASE}/books/${id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(bookData),
@@ -158,7 +247,7 @@ async function updateBook(id, bookData) {
 async function deleteBook(id) {
   if (!confirm('Are you sure you want to delete this book?')) return;
   try {
-    const response = await fetch(`${API_BASE}/books/${id}`, {
+    const response = await apiFetch(`${API_BASE}/books/${id}`, {
       method: 'DELETE',
     });
     if (!response.ok) throw new Error('Failed to delete book');
@@ -330,8 +419,7 @@ function renderBooks(booksToRender) {
 
   container.innerHTML = booksToRender
     .map((book) => {
-      const author = authors.find((a) => a.id === book.authorId);
-      const authorName = author ? `${author.firstName} ${author.lastName}` : 'Unknown';
+      const authorName = book.author?.fullName || 'Unknown';
       const placeholderImage = generatePlaceholderImage(book);
       const coverImageUrlData = getBookCoverImageUrl(book);
       const coverImageUrl =
@@ -380,6 +468,7 @@ function renderBooks(booksToRender) {
                 <div class="card-info">
                     ${book.genre ? `<div style="text-transform: uppercase; font-size: 12px; letter-spacing: 0.5px; color: #717171; margin-bottom: 4px;">${escapeHtml(book.genre)}</div>` : ''}
                     <div style="font-size: 14px; color: #717171;">${book.publishedYear}</div>
+                    <div style="font-size: 14px; color: #717171;">${book.availableCopies} of ${book.totalCopies} copies available</div>
                 </div>
                 <div class="card-actions">
                     ${book.available ? `<button class="btn btn-primary btn-small" onclick="showBorrowForm(${book.id})" style="flex: 1;">Borrow</button>` : '<div style="padding: 8px 16px; font-size: 14px; color: #717171; text-align: center; flex: 1;">Unavailable</div>'}
@@ -420,6 +509,34 @@ function filterBooks() {
   loadBooks(1, booksPagination.limit);
 }
 
+// Typo-tolerant title and author suggestions for the search box
+let suggestTimer = null;
+function suggestSearchTerms() {
+  clearTimeout(suggestTimer);
+  suggestTimer = setTimeout(async () => {
+    const query = document.getElementById('book-search').value.trim();
+    const datalist = document.getElementById('book-search-suggestions');
+    if (query.length < 2) {
+      datalist.innerHTML = '';
+      return;
+    }
+    try {
+      const response = await apiFetch(
+        `${API_BASE}/autocomplete?q=${encodeURIComponent(query)}&limit=8`,
+      );
+      const suggestions = response.ok ? await response.json() : [];
+      datalist.innerHTML = '';
+      suggestions.forEach((suggestion) => {
+        const option = document.createElement('option');
+        option.value = suggestion.label;
+        datalist.appendChild(option);
+      });
+    } catch (error) {
+      // Suggestions are best effort; typing still filters the list
+    }
+  }, 150);
+}
+
 function goToBooksPage(page) {
   if (page >= 1 && page <= booksPagination.totalPages) {
     loadBooks(page, booksPagination.limit);
@@ -545,10 +662,11 @@ function showBookForm(bookId = null) {
       document.getElementById('book-author').value = book.authorId;
       document.getElementById('book-year').value = book.publishedYear;
       document.getElementById('book-genre').value = book.genre || '';
-      document.getElementById('book-available').checked = book.available;
+      document.getElementById('book-copies-group').style.display = 'none';
     }
   } else {
     title.textContent = 'Add New Book';
+    document.getElementById('book-copies-group').style.display = '';
   }
 
   modal.classList.add('active');
@@ -563,12 +681,12 @@ function saveBook(event) {
     authorId: parseInt(document.getElementById('book-author').value),
     publishedYear: parseInt(document.getElementById('book-year').value),
     genre: document.getElementById('book-genre').value || undefined,
-    available: document.getElementById('book-available').checked,
   };
 
   if (id) {
     updateBook(id, bookData);
   } else {
+    bookData.copies = parseInt(document.getElementById('book-copies').value);
     createBook(bookData);
   }
 }
@@ -580,8 +698,8 @@ function editBook(id) {
 // API Functions - Authors
 async function loadAuthors() {
   try {
-    const response = await fetch(`${API_BASE}/authors`);
-    authors = await response.json();
+    const { items } = await fetchAllPages(`${API_BASE}/authors?limit=100`);
+    authors = items;
     renderAuthors(authors);
   } catch (error) {
     showAlert('Error loading authors: ' + error.message, 'error');
@@ -590,7 +708,7 @@ async function loadAuthors() {
 
 async function createAuthor(authorData) {
   try {
-    const response = await fetch(`${API_BASE}/authors`, {
+    const response = await apiFetch(`${API_BASE}/authors`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(authorData),
@@ -607,7 +725,7 @@ async function createAuthor(authorData) {
 
 async function updateAuthor(id, authorData) {
   try {
-    const response = await fetch(`${API_BASE}/authors/${id}`, {
+    const response = await apiFetch(`${API_BASE}/authors/${id}`, {
       method: 'PATCH',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(authorData),
@@ -626,7 +744,7 @@ async function deleteAuthor(id) {
   if (!confirm('Are you sure you want to delete this author? This will not delete their books.'))
     return;
   try {
-    const response = await fetch(`${API_BASE}/authors/${id}`, {
+    const response = await apiFetch(`${API_BASE}/authors/${id}`, {
       method: 'DELETE',
     });
     if (!response.ok) throw new Error('Failed to delete author');
@@ -760,11 +878,25 @@ function editAuthor(id) {
   showAuthorForm(id);
 }
 
+// API Functions - Patrons
+async function loadPatrons() {
+  try {
+    const response = await apiFetch(`${API_BASE}/patrons`);
+    // Only staff can list patrons
+    patrons = response.ok ? await response.json() : [];
+  } catch (error) {
+    showAlert('Error loading patrons: ' + error.message, 'error');
+  }
+}
+
 // API Functions - Borrowings
 async function loadBorrowings() {
   try {
-    const response = await fetch(`${API_BASE}/borrowings`);
-    borrowings = await response.json();
+    // Signed-out visitors see no borrowings; patrons see only their own
+    const { ok, items } = await fetchAllPages(
+      `${API_BASE}/borrowings?limit=100&cursor=&include=book`,
+    );
+    borrowings = ok ? items : [];
     renderBorrowings(borrowings);
     updateBorrowingFilters();
   } catch (error) {
@@ -774,7 +906,7 @@ async function loadBorrowings() {
 
 async function borrowBook(borrowingData) {
   try {
-    const response = await fetch(`${API_BASE}/borrowings`, {
+    const response = await apiFetch(`${API_BASE}/borrowings`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(borrowingData),
@@ -794,7 +926,7 @@ async function borrowBook(borrowingData) {
 
 async function returnBook(id) {
   try {
-    const response = await fetch(`${API_BASE}/borrowings/${id}/return`, {
+    const response = await apiFetch(`${API_BASE}/borrowings/${id}/return`, {
       method: 'PATCH',
     });
     if (!response.ok) throw new Error('Failed to return book');
@@ -806,6 +938,22 @@ async function returnBook(id) {
   }
 }
 
+async function renewBorrowing(id) {
+  try {
+    const response = await apiFetch(`${API_BASE}/borrowings/${id}/renew`, {
+      method: 'PATCH',
+    });
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to renew loan');
+    }
+    await loadBorrowings();
+    showAlert('Loan renewed successfully!', 'success');
+  } catch (error) {
+    showAlert('Error renewing loan: ' + error.message, 'error');
+  }
+}
+
 function renderBorrowings(borrowingsToRender) {
   const container = document.getElementById('borrowings-list');
   if (borrowingsToRender.length === 0) {
@@ -838,8 +986,9 @@ function renderBorrowings(borrowingsToRender) {
         <tbody>
           ${sortedBorrowings
             .map((borrowing) => {
-              const book = books.find((b) => b.id === borrowing.bookId);
-              const bookTitle = book ? book.title : 'Unknown Book';
+              const bookTitle = borrowing.book?.title || 'Unknown Book';
+              const patron = patrons.find((p) => p.id === borrowing.patronId);
+              const borrowerName = patron ? patron.name : borrowing.borrowerName || 'Unknown Patron';
               const dueDate = new Date(borrowing.dueDate);
               const borrowedDate = new Date(borrowing.borrowedDate);
               const isOverdue =
@@ -856,7 +1005,7 @@ function renderBorrowings(borrowingsToRender) {
                     <div class="table-book-title">${escapeHtml(bookTitle)}</div>
                   </td>
                   <td>
-                    <div class="table-borrower">${escapeHtml(borrowing.borrowerName)}</div>
+                    <div class="table-borrower">${escapeHtml(borrowerName)}</div>
                   </td>
                   <td>
                     <div class="table-date">${borrowedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</div>
@@ -887,7 +1036,8 @@ function renderBorrowings(borrowingsToRender) {
                               <polyline points="20 6 9 17 4 12"></polyline>
                             </svg>
                             Return
-                          </button>`
+                          </button>
+                          <button class="btn btn-secondary btn-small" onclick="renewBorrowing(${borrowing.id})">Renew</button>`
                         : '<span class="text-muted">—</span>'
                     }
                   </td>
@@ -947,6 +1097,17 @@ function showBorrowForm(bookId = null) {
       bookSelect.appendChild(option);
     });
 
+  const patronSelect = document.getElementById('borrow-patron');
+  patronSelect.innerHTML = '<option value="">Select Patron</option>';
+  patrons
+    .filter((p) => p.status === 'ACTIVE')
+    .forEach((patron) => {
+      const option = document.createElement('option');
+      option.value = patron.id;
+      option.textContent = `${patron.name} (${patron.cardNumber})`;
+      patronSelect.appendChild(option);
+    });
+
   modal.classList.add('active');
 }
 
@@ -958,12 +1119,24 @@ function setupFormHandlers() {
       event.preventDefault();
       const borrowingData = {
         bookId: parseInt(document.getElementById('borrow-book').value),
-        borrowerName: document.getElementById('borrower-name').value,
+        patronId: parseInt(document.getElementById('borrow-patron').value),
         borrowDays: parseInt(document.getElementById('borrow-days').value),
       };
       borrowBook(borrowingData);
     });
   }
+
+  // Set up login form handler
+  const loginForm = document.getElementById('login-form');
+  if (loginForm) {
+    loginForm.addEventListener('submit', function (event) {
+      event.preventDefault();
+      signIn(
+        document.getElementById('login-email').value,
+        document.getElementById('login-password').value,
+      );
+    });
+  }
 }
 
 // Utility Functions
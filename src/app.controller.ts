@@ -1,10 +1,12 @@
 import { Controller, Get, Res } from '@nestjs/common';
 import { Response } from 'express';
 import { join } from 'path';
+import { Public } from './auth/decorators/public.decorator';
 
 @Controller()
 export class AppController {
   @Get()
+  @Public()
   getRoot(@Res() res: Response) {
     // Try dist/public first (production), then public (development)
     const publicPath = join(__dirname, '..', 'public', 'index.html');
@@ -1,36 +1,68 @@
 import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
-import { APP_INTERCEPTOR } from '@nestjs/core';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
 import { BooksModule } from './books/books.module';
 import { AuthorsModule } from './authors/authors.module';
 import { BorrowingsModule } from './borrowings/borrowings.module';
+import { PatronsModule } from './patrons/patrons.module';
+import { CopiesModule } from './copies/copies.module';
+import { HoldsModule } from './holds/holds.module';
+import { FinesModule } from './fines/fines.module';
+import { AuthModule } from './auth/auth.module';
+import { SearchModule } from './search/search.module';
+import { JobsModule } from './jobs/jobs.module';
+import { EventsModule } from './events/events.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { AuditModule } from './audit/audit.module';
+import { HealthModule } from './health/health.module';
+import { MetricsModule } from './metrics/metrics.module';
 import { LoggerModule } from './common/logger/logger.module';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
+import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { RolesGuard } from './auth/guards/roles.guard';
 import { AppController } from './app.controller';
-import { Book } from './books/entities/book.entity';
-import { Author } from './authors/entities/author.entity';
-import { Borrowing } from './borrowings/entities/borrowing.entity';
+import { dataSourceOptions } from './database/data-source';
 
 @Module({
   imports: [
     TypeOrmModule.forRoot({
-      type: 'postgres',
-      host: process.env.DATABASE_HOST || 'localhost',
-      port: parseInt(process.env.DATABASE_PORT || '5432'),
-      username: process.env.DATABASE_USER || 'library_user',
-      password: process.env.DATABASE_PASSWORD || 'library_password',
-      database: process.env.DATABASE_NAME || 'library_db',
-      entities: [Book, Author, Borrowing],
-      synchronize: true, // Auto-sync schema (set to false in production with migrations)
+      ...dataSourceOptions,
+      // Apply pending migrations on boot; otherwise run `npm run migration:run`
+      migrationsRun:
+        process.env.MIGRATE_ON_STARTUP === 'true' || process.env.NODE_ENV === 'development',
       logging: process.env.NODE_ENV === 'development',
     }),
+    // Cron jobs (JobsModule) and the outbox poller (EventsModule) share one registry
+    ScheduleModule.forRoot(),
     LoggerModule,
     BooksModule,
     AuthorsModule,
     BorrowingsModule,
+    PatronsModule,
+    CopiesModule,
+    HoldsModule,
+    FinesModule,
+    AuthModule,
+    SearchModule,
+    JobsModule,
+    EventsModule,
+    WebhooksModule,
+    AuditModule,
+    HealthModule,
+    MetricsModule,
   ],
   controllers: [AppController],
   providers: [
+    // Authenticate first, then check roles; routes opt out with @Public()
+    {
+      provide: APP_GUARD,
+      useClass: JwtAuthGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: LoggingInterceptor,
@@ -42,4 +74,3 @@ export class AppModule implements NestModule {
     // Global logging interceptor is applied via APP_INTERCEPTOR
   }
 }
-
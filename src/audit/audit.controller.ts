@@ -0,0 +1,38 @@
+import { Controller, Get, Query, Inject } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { QueryAuditDto } from './dto/query-audit.dto';
+import { PaginatedAuditResponseDto } from './dto/audit-entry-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('audit')
+@ApiBearerAuth()
+@Roles('ADMIN')
+@Controller('audit')
+export class AuditController {
+  constructor(
+    private readonly auditService: AuditService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[AUDIT_CONTROLLER] AuditController initialized');
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search the audit trail (admin only)',
+    description: 'Example: `?entityType=BOOK&entityId=1`',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated audit entries, newest first',
+    type: PaginatedAuditResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid filter.' })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async findAll(@Query() query: QueryAuditDto) {
+    this.logger.debug('[AUDIT_CONTROLLER] GET /audit - Fetching audit entries', { query });
+    return this.auditService.findAll(query);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuditService } from './audit.service';
+import { AuditController } from './audit.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { AuditLogEntry } from './entities/audit-log-entry.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditLogEntry]), LoggerModule],
+  controllers: [AuditController],
+  providers: [AuditService],
+  exports: [AuditService],
+})
+export class AuditModule {}
@@ -0,0 +1,137 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, ObjectLiteral, Repository } from 'typeorm';
+import {
+  AuditLogEntry,
+  AuditEntityType,
+  AuditAction,
+  AuditChanges,
+} from './entities/audit-log-entry.entity';
+import { QueryAuditDto } from './dto/query-audit.dto';
+import { AuthUser } from '../auth/auth-user';
+import { paginate, Paginated } from '../common/pagination.util';
+import { Logger } from 'common-sense-logger';
+
+export interface AuditRecord {
+  actor?: AuthUser;
+  entityType: AuditEntityType;
+  entityId: number;
+  action: AuditAction;
+  // Entity instances; omit `before` for a create and `after` for a delete
+  before?: ObjectLiteral;
+  after?: ObjectLiteral;
+}
+
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditLogEntry)
+    private readonly auditRepository: Repository<AuditLogEntry>,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[AUDIT_SERVICE] AuditService initialized');
+  }
+
+  /**
+   * Stores the field-level diff between `before` and `after`. Pass the
+   * manager of the transaction making the change so both commit together.
+   */
+  async record(record: AuditRecord, manager?: EntityManager): Promise<void> {
+    const { actor, entityType, entityId, action, before, after } = record;
+    const changes = this.diff(before, after);
+    if (action === 'UPDATE' && Object.keys(changes).length === 0) {
+      return;
+    }
+
+    const repository = manager ? manager.getRepository(AuditLogEntry) : this.auditRepository;
+    await repository.insert({
+      actorId: actor?.id,
+      actorEmail: actor?.email,
+      entityType,
+      entityId,
+      action,
+      changes,
+    });
+    this.logger.debug(`[AUDIT_SERVICE] ${action} ${entityType} ${entityId} recorded`, {
+      actorId: actor?.id,
+      fields: Object.keys(changes),
+    });
+  }
+
+  async findAll(query: QueryAuditDto = {}): Promise<Paginated<AuditLogEntry>> {
+    const queryBuilder = this.auditRepository.createQueryBuilder('entry');
+
+    if (query.entityType) {
+      queryBuilder.andWhere('entry.entityType = :entityType', { entityType: query.entityType });
+    }
+    if (query.entityId !== undefined) {
+      queryBuilder.andWhere('entry.entityId = :entityId', { entityId: query.entityId });
+    }
+    if (query.actorId !== undefined) {
+      queryBuilder.andWhere('entry.actorId = :actorId', { actorId: query.actorId });
+    }
+
+    // Newest first, by id since a cursor would truncate createdAt's microseconds
+    return paginate(queryBuilder, query, {
+      path: '/audit',
+      sort: [{ column: 'id', order: 'DESC' }],
+    });
+  }
+
+  /**
+   * Timeline of a book, oldest first: changes to the book itself, its
+   * copies, and the loans made against it.
+   */
+  async findBookHistory(bookId: number): Promise<AuditLogEntry[]> {
+    return this.auditRepository
+      .createQueryBuilder('entry')
+      .where(`(entry.entityType = 'BOOK' AND entry.entityId = :bookId)`)
+      .orWhere(
+        `(entry.entityType = 'COPY' AND entry.entityId IN (SELECT "id" FROM "book_copies" WHERE "bookId" = :bookId))`,
+      )
+      .orWhere(
+        `(entry.entityType = 'BORROWING' AND entry.entityId IN (SELECT "id" FROM "borrowings" WHERE "bookId" = :bookId))`,
+      )
+      .setParameter('bookId', bookId)
+      .orderBy('entry.createdAt', 'ASC')
+      .addOrderBy('entry.id', 'ASC')
+      .getMany();
+  }
+
+  /**
+   * Compares the persisted columns of both snapshots; relations, virtual
+   * columns, hidden columns and the created/updated timestamps are left out.
+   */
+  private diff(before?: ObjectLiteral, after?: ObjectLiteral): AuditChanges {
+    const metadata = this.dataSource.getMetadata((after ?? before).constructor);
+    const changes: AuditChanges = {};
+    for (const column of metadata.columns) {
+      if (
+        column.isVirtualProperty ||
+        !column.isSelect ||
+        column.isCreateDate ||
+        column.isUpdateDate
+      ) {
+        continue;
+      }
+      const dateOnly = column.type === 'date';
+      const from = this.normalize(before?.[column.propertyName], dateOnly);
+      const to = this.normalize(after?.[column.propertyName], dateOnly);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[column.propertyName] = { from, to };
+      }
+    }
+    return changes;
+  }
+
+  // `date` columns load as 'YYYY-MM-DD' strings but are often set as Date objects
+  private normalize(value: unknown, dateOnly: boolean): unknown {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    const normalized = value instanceof Date ? value.toISOString() : value;
+    return dateOnly ? String(normalized).slice(0, 10) : normalized;
+  }
+}
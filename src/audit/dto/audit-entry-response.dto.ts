@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  AuditAction,
+  AuditChanges,
+  AuditEntityType,
+} from '../entities/audit-log-entry.entity';
+
+export class AuditEntryResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the entry' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the user who made the change', required: false })
+  actorId?: number;
+
+  @ApiProperty({
+    example: 'admin@library.local',
+    description: 'Email of the user at the time of the change',
+    required: false,
+  })
+  actorEmail?: string;
+
+  @ApiProperty({ example: 'BOOK', enum: AUDIT_ENTITY_TYPES, description: 'Kind of record' })
+  entityType: AuditEntityType;
+
+  @ApiProperty({ example: 1, description: 'ID of the record' })
+  entityId: number;
+
+  @ApiProperty({ example: 'UPDATE', enum: AUDIT_ACTIONS, description: 'What was done' })
+  action: AuditAction;
+
+  @ApiProperty({
+    example: { genre: { from: 'Fiction', to: 'Classic' } },
+    description: 'Changed fields with their old and new values',
+  })
+  changes: AuditChanges;
+
+  @ApiProperty({ description: 'When the change was made' })
+  createdAt: Date;
+}
+
+export class PaginatedAuditResponseDto extends PaginatedResponseDto {
+  @ApiProperty({ type: [AuditEntryResponseDto], description: 'Entries, newest first' })
+  data: AuditEntryResponseDto[];
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { AUDIT_ENTITY_TYPES, AuditEntityType } from '../entities/audit-log-entry.entity';
+
+export class QueryAuditDto extends PaginationQueryDto {
+  @ApiProperty({
+    description: 'Only entries for this kind of record',
+    enum: AUDIT_ENTITY_TYPES,
+    required: false,
+  })
+  @IsIn(AUDIT_ENTITY_TYPES)
+  @IsOptional()
+  entityType?: AuditEntityType;
+
+  @ApiProperty({ description: 'Only entries for this record ID', example: 1, required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  entityId?: number;
+
+  @ApiProperty({ description: 'Only changes made by this user ID', example: 1, required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  actorId?: number;
+}
@@ -0,0 +1,49 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+export const AUDIT_ENTITY_TYPES = ['BOOK', 'AUTHOR', 'COPY', 'PATRON', 'BORROWING'] as const;
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export const AUDIT_ACTIONS = ['CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'BORROW', 'RETURN'] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+// Field name -> old and new value; a created record has every `from` null, a deleted one every `to`
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Who changed what and when. Written in the same transaction as the change;
+ * the actor is copied rather than referenced so entries outlive the account.
+ */
+@Entity('audit_log')
+@Index(['entityType', 'entityId', 'createdAt'])
+export class AuditLogEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Null for changes made without a logged-in user
+  @Column({ nullable: true })
+  actorId?: number;
+
+  @Column({ nullable: true })
+  actorEmail?: string;
+
+  @Column({
+    type: 'enum',
+    enum: AUDIT_ENTITY_TYPES,
+  })
+  entityType: AuditEntityType;
+
+  @Column()
+  entityId: number;
+
+  @Column({
+    type: 'enum',
+    enum: AUDIT_ACTIONS,
+  })
+  action: AuditAction;
+
+  @Column({ type: 'jsonb' })
+  changes: AuditChanges;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import { ForbiddenException } from '@nestjs/common';
+import { UserRole } from './entities/user.entity';
+
+/**
+ * The caller, as decoded from a verified access token and attached to the
+ * request by JwtAuthGuard.
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+  role: UserRole;
+  patronId?: number;
+}
+
+export interface JwtPayload {
+  sub: number;
+  email: string;
+  role: UserRole;
+  patronId?: number;
+}
+
+export const STAFF_ROLES: UserRole[] = ['ADMIN', 'LIBRARIAN'];
+
+export function isStaff(user: AuthUser): boolean {
+  return STAFF_ROLES.includes(user.role);
+}
+
+/**
+ * Staff may act on any patron's records; a patron only on their own.
+ */
+export function assertPatronAccess(user: AuthUser, patronId: number): void {
+  if (isStaff(user)) {
+    return;
+  }
+  if (user.patronId == null || user.patronId !== patronId) {
+    throw new ForbiddenException('You can only access your own records');
+  }
+}
+
+/**
+ * Soft-deleted catalog records are only listed for staff.
+ */
+export function assertCanIncludeDeleted(
+  user: AuthUser | undefined,
+  includeDeleted?: boolean,
+): void {
+  if (includeDeleted && !(user && isStaff(user))) {
+    throw new ForbiddenException('Only staff can view deleted records');
+  }
+}
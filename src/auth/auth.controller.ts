@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Body, HttpCode, HttpStatus, Inject } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { LoginDto } from './dto/login.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import { LoginResponseDto } from './dto/login-response.dto';
+import { UserResponseDto } from './dto/user-response.dto';
+import { Public } from './decorators/public.decorator';
+import { Roles } from './decorators/roles.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { AuthUser } from './auth-user';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('auth')
+@Controller('auth')
+export class AuthController {
+  constructor(
+    private readonly authService: AuthService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[AUTH_CONTROLLER] AuthController initialized');
+  }
+
+  @Post('login')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Exchange email and password for an access token' })
+  @ApiBody({ type: LoginDto })
+  @ApiResponse({ status: 200, description: 'Login successful.', type: LoginResponseDto })
+  @ApiResponse({ status: 401, description: 'Invalid email or password.' })
+  async login(@Body() loginDto: LoginDto) {
+    this.logger.info('[AUTH_CONTROLLER] POST /auth/login - Logging in', {
+      email: loginDto.email,
+    });
+    return this.authService.login(loginDto);
+  }
+
+  @Get('me')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the account behind the current access token' })
+  @ApiResponse({ status: 200, description: 'The current account.', type: UserResponseDto })
+  @ApiResponse({ status: 401, description: 'Missing or invalid token.' })
+  async me(@CurrentUser() user: AuthUser) {
+    this.logger.debug('[AUTH_CONTROLLER] GET /auth/me - Fetching current account', {
+      userId: user.id,
+    });
+    return this.authService.findOne(user.id);
+  }
+
+  @Post('users')
+  @Roles('ADMIN')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a login account (admin only)' })
+  @ApiBody({ type: CreateUserDto })
+  @ApiResponse({ status: 201, description: 'The account has been created.', type: UserResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Email already in use or invalid patron link.',
+  })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async createUser(@Body() createUserDto: CreateUserDto) {
+    this.logger.info('[AUTH_CONTROLLER] POST /auth/users - Creating account', {
+      email: createUserDto.email,
+      role: createUserDto.role,
+    });
+    try {
+      return await this.authService.createUser(createUserDto);
+    } catch (error) {
+      this.logger.error('[AUTH_CONTROLLER] Failed to create account', {
+        email: createUserDto.email,
+        role: createUserDto.role,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get('users')
+  @Roles('ADMIN')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List login accounts (admin only)' })
+  @ApiResponse({ status: 200, description: 'All accounts.', type: [UserResponseDto] })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async findAll() {
+    this.logger.debug('[AUTH_CONTROLLER] GET /auth/users - Fetching accounts');
+    return this.authService.findAll();
+  }
+}
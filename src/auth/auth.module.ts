@@ -0,0 +1,42 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JwtModule } from '@nestjs/jwt';
+import { AuthService } from './auth.service';
+import { AuthController } from './auth.controller';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { LoggerModule } from '../common/logger/logger.module';
+import { PatronsModule } from '../patrons/patrons.module';
+import { EventsModule } from '../events/events.module';
+import { User } from './entities/user.entity';
+
+// A default secret is public, so anyone could sign tokens with it; only local
+// development may start without JWT_SECRET
+function jwtSecret(): string {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV !== 'development') {
+    throw new Error('JWT_SECRET must be set when NODE_ENV is not development');
+  }
+  return 'local-development-secret';
+}
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User]),
+    JwtModule.registerAsync({
+      useFactory: () => ({
+        secret: jwtSecret(),
+        signOptions: { expiresIn: process.env.JWT_EXPIRES_IN || '1h' },
+      }),
+    }),
+    PatronsModule,
+    EventsModule,
+    LoggerModule,
+  ],
+  controllers: [AuthController],
+  providers: [AuthService, JwtAuthGuard, RolesGuard],
+  exports: [AuthService, JwtAuthGuard, RolesGuard, JwtModule],
+})
+export class AuthModule {}
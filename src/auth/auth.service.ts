@@ -0,0 +1,162 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  Inject,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { JwtService } from '@nestjs/jwt';
+import { DataSource, Repository } from 'typeorm';
+import { User } from './entities/user.entity';
+import { LoginDto } from './dto/login.dto';
+import { CreateUserDto } from './dto/create-user.dto';
+import { PatronsService } from '../patrons/patrons.service';
+import { hashPassword, verifyPassword } from './password.util';
+import { JwtPayload } from './auth-user';
+import { EventsService } from '../events/events.service';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class AuthService implements OnApplicationBootstrap {
+  private readonly TOKEN_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '1h';
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly jwtService: JwtService,
+    private readonly patronsService: PatronsService,
+    private readonly eventsService: EventsService,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[AUTH_SERVICE] AuthService initialized');
+  }
+
+  /**
+   * Creates the first admin account from ADMIN_EMAIL / ADMIN_PASSWORD so a
+   * fresh install can be administered without running the seed.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const email = process.env.ADMIN_EMAIL;
+    const password = process.env.ADMIN_PASSWORD;
+    if (!email || !password) {
+      return;
+    }
+
+    try {
+      const existing = await this.userRepository.findOne({ where: { email } });
+      if (existing) {
+        return;
+      }
+      await this.userRepository.save(
+        this.userRepository.create({
+          email,
+          passwordHash: await hashPassword(password),
+          role: 'ADMIN',
+        }),
+      );
+      this.logger.info('[AUTH_SERVICE] Bootstrap admin account created', { email });
+    } catch (error) {
+      this.logger.error('[AUTH_SERVICE] Failed to create bootstrap admin account', {
+        email,
+        stack: error.stack,
+      });
+    }
+  }
+
+  async login(loginDto: LoginDto) {
+    this.logger.info('[AUTH_SERVICE] Processing login', { email: loginDto.email });
+
+    const user = await this.userRepository
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', { email: loginDto.email })
+      .getOne();
+
+    if (!user || !(await verifyPassword(loginDto.password, user.passwordHash))) {
+      this.logger.warn('[AUTH_SERVICE] Login failed', { email: loginDto.email });
+      throw new UnauthorizedException('Invalid email or password');
+    }
+
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      patronId: user.patronId ?? undefined,
+    };
+    const accessToken = await this.jwtService.signAsync(payload);
+
+    await this.eventsService.publish('USER_LOGGED_IN', { userId: user.id, role: user.role });
+
+    return {
+      accessToken,
+      tokenType: 'Bearer',
+      expiresIn: this.TOKEN_EXPIRES_IN,
+      user: this.toResponse(user),
+    };
+  }
+
+  async createUser(createUserDto: CreateUserDto): Promise<User> {
+    this.logger.info('[AUTH_SERVICE] Creating user account', {
+      email: createUserDto.email,
+      role: createUserDto.role,
+    });
+
+    const existing = await this.userRepository.findOne({
+      where: { email: createUserDto.email },
+    });
+    if (existing) {
+      throw new BadRequestException(`An account with email ${createUserDto.email} already exists`);
+    }
+
+    if (createUserDto.role === 'PATRON') {
+      if (!createUserDto.patronId) {
+        throw new BadRequestException('PATRON accounts must be linked to a patronId');
+      }
+      await this.patronsService.findOne(createUserDto.patronId);
+    } else if (createUserDto.patronId) {
+      throw new BadRequestException('Only PATRON accounts can be linked to a patron');
+    }
+
+    const { password, ...rest } = createUserDto;
+    const user = this.userRepository.create({
+      ...rest,
+      passwordHash: await hashPassword(password),
+    });
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const saved = await manager.save(user);
+      await this.eventsService.publish(
+        'USER_CREATED',
+        { userId: saved.id, role: saved.role, patronId: saved.patronId ?? undefined },
+        manager,
+      );
+      return saved;
+    });
+
+    return this.findOne(saved.id);
+  }
+
+  async findAll(): Promise<User[]> {
+    return this.userRepository.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+    return user;
+  }
+
+  private toResponse(user: User) {
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      patronId: user.patronId,
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Lets a route through JwtAuthGuard without an access token.
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
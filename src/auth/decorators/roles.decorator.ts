@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from '../entities/user.entity';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restricts a route to callers holding one of the given roles.
+ */
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, MinLength, IsIn, IsNumber, IsOptional, Min } from 'class-validator';
+import { USER_ROLES, UserRole } from '../entities/user.entity';
+
+export class CreateUserDto {
+  @ApiProperty({ description: 'Login email', example: 'jane.smith@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: 'Password (at least 8 characters)', example: 'changeme123' })
+  @IsString()
+  @MinLength(8)
+  password: string;
+
+  @ApiProperty({ description: 'Role of the account', enum: USER_ROLES, example: 'PATRON' })
+  @IsIn(USER_ROLES)
+  role: UserRole;
+
+  @ApiProperty({
+    description: 'Patron record the account belongs to (required for PATRON accounts)',
+    example: 2,
+    required: false,
+  })
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  patronId?: number;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserResponseDto } from './user-response.dto';
+
+export class LoginResponseDto {
+  @ApiProperty({ description: 'Signed JWT to send as `Authorization: Bearer <token>`' })
+  accessToken: string;
+
+  @ApiProperty({ example: 'Bearer' })
+  tokenType: string;
+
+  @ApiProperty({ example: '1h', description: 'Lifetime of the access token' })
+  expiresIn: string;
+
+  @ApiProperty({ type: UserResponseDto })
+  user: UserResponseDto;
+}
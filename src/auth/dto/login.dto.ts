@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, IsNotEmpty } from 'class-validator';
+
+export class LoginDto {
+  @ApiProperty({ description: 'Account email', example: 'librarian@library.local' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ description: 'Account password', example: 'librarian123' })
+  @IsString()
+  @IsNotEmpty()
+  password: string;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { USER_ROLES, UserRole } from '../entities/user.entity';
+
+export class UserResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the account' })
+  id: number;
+
+  @ApiProperty({ example: 'librarian@library.local', description: 'Login email' })
+  email: string;
+
+  @ApiProperty({ example: 'LIBRARIAN', enum: USER_ROLES, description: 'Role of the account' })
+  role: UserRole;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Linked patron record (PATRON accounts only)',
+    required: false,
+  })
+  patronId?: number;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Patron } from '../../patrons/entities/patron.entity';
+
+export const USER_ROLES = ['ADMIN', 'LIBRARIAN', 'PATRON'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Login account. Staff accounts (ADMIN, LIBRARIAN) stand alone; PATRON
+ * accounts are linked to the patron record whose loans they may see.
+ */
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  email: string;
+
+  @Column({ select: false })
+  passwordHash: string;
+
+  @Column({
+    type: 'enum',
+    enum: USER_ROLES,
+  })
+  role: UserRole;
+
+  @Column({ nullable: true })
+  patronId?: number;
+
+  @ManyToOne(() => Patron, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'patronId' })
+  patron?: Patron;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { UserRole } from '../entities/user.entity';
+import { AuthUser } from '../auth-user';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!roles || roles.length === 0) {
+      return true;
+    }
+
+    const user: AuthUser | undefined = context.switchToHttp().getRequest().user;
+    if (!user || !roles.includes(user.role)) {
+      throw new ForbiddenException(`Requires one of the roles: ${roles.join(', ')}`);
+    }
+    return true;
+  }
+}
@@ -6,6 +6,7 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   HttpCode,
   HttpStatus,
   Inject,
@@ -16,11 +17,18 @@ import {
   ApiResponse,
   ApiParam,
   ApiBody,
+  ApiBearerAuth,
 } from '@nestjs/swagger';
 import { AuthorsService } from './authors.service';
 import { CreateAuthorDto } from './dto/create-author.dto';
 import { UpdateAuthorDto } from './dto/update-author.dto';
-import { AuthorResponseDto } from './dto/author-response.dto';
+import { QueryAuthorsDto, AuthorViewQueryDto } from './dto/query-authors.dto';
+import { AuthorResponseDto, PaginatedAuthorsResponseDto } from './dto/author-response.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser, assertCanIncludeDeleted } from '../auth/auth-user';
+import { Serialize } from '../common/decorators/serialize.decorator';
 import { Logger } from 'common-sense-logger';
 
 @ApiTags('authors')
@@ -35,6 +43,9 @@ export class AuthorsController {
   }
 
   @Post()
+  @Serialize(AuthorResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new author' })
   @ApiBody({ type: CreateAuthorDto })
   @ApiResponse({
@@ -43,13 +54,13 @@ export class AuthorsController {
     type: AuthorResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
-  async create(@Body() createAuthorDto: CreateAuthorDto) {
+  async create(@Body() createAuthorDto: CreateAuthorDto, @CurrentUser() user: AuthUser) {
     this.logger.info('[AUTHORS_CONTROLLER] POST /authors - Creating new author', {
       firstName: createAuthorDto.firstName,
       lastName: createAuthorDto.lastName,
     });
     try {
-      const author = await this.authorsService.create(createAuthorDto);
+      const author = await this.authorsService.create(createAuthorDto, user);
       this.logger.info('[AUTHORS_CONTROLLER] Author creation successful', {
         authorId: author.id,
       });
@@ -64,22 +75,30 @@ export class AuthorsController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all authors' })
+  @Serialize(PaginatedAuthorsResponseDto)
+  @Public()
+  @ApiOperation({ summary: 'Get all authors with pagination' })
   @ApiResponse({
     status: 200,
-    description: 'List of all authors',
-    type: [AuthorResponseDto],
+    description: 'Paginated list of authors',
+    type: PaginatedAuthorsResponseDto,
   })
-  async findAll() {
-    this.logger.debug('[AUTHORS_CONTROLLER] GET /authors - Fetching all authors');
-    const authors = await this.authorsService.findAll();
-    this.logger.debug(`[AUTHORS_CONTROLLER] Returning ${authors.length} authors`, {
-      count: authors.length,
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid pagination parameter.' })
+  @ApiResponse({ status: 403, description: 'includeDeleted requested by a non-staff caller.' })
+  async findAll(@Query() query: QueryAuthorsDto, @CurrentUser() user: AuthUser) {
+    this.logger.debug('[AUTHORS_CONTROLLER] GET /authors - Fetching all authors', { query });
+    assertCanIncludeDeleted(user, query.includeDeleted);
+    const result = await this.authorsService.findAll(query);
+    this.logger.debug(`[AUTHORS_CONTROLLER] Returning ${result.data.length} authors`, {
+      count: result.data.length,
+      total: result.total,
     });
-    return authors;
+    return result;
   }
 
   @Get(':id')
+  @Serialize(AuthorResponseDto)
+  @Public()
   @ApiOperation({ summary: 'Get an author by ID' })
   @ApiParam({ name: 'id', type: Number, description: 'Author ID' })
   @ApiResponse({
@@ -88,12 +107,17 @@ export class AuthorsController {
     type: AuthorResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Author not found.' })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Query() query: AuthorViewQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
     this.logger.debug(`[AUTHORS_CONTROLLER] GET /authors/${id} - Fetching author`, {
       authorId: id,
     });
+    assertCanIncludeDeleted(user, query.includeDeleted);
     try {
-      const author = await this.authorsService.findOne(+id);
+      const author = await this.authorsService.findOne(+id, query.includeDeleted, query.include);
       this.logger.debug('[AUTHORS_CONTROLLER] Author retrieved successfully', {
         authorId: author.id,
         fullName: `${author.firstName} ${author.lastName}`,
@@ -109,6 +133,9 @@ export class AuthorsController {
   }
 
   @Patch(':id')
+  @Serialize(AuthorResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Update an author' })
   @ApiParam({ name: 'id', type: Number, description: 'Author ID' })
   @ApiBody({ type: UpdateAuthorDto })
@@ -119,13 +146,17 @@ export class AuthorsController {
   })
   @ApiResponse({ status: 404, description: 'Author not found.' })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
-  async update(@Param('id') id: string, @Body() updateAuthorDto: UpdateAuthorDto) {
+  async update(
+    @Param('id') id: string,
+    @Body() updateAuthorDto: UpdateAuthorDto,
+    @CurrentUser() user: AuthUser,
+  ) {
     this.logger.info(`[AUTHORS_CONTROLLER] PATCH /authors/${id} - Updating author`, {
       authorId: id,
       updates: Object.keys(updateAuthorDto),
     });
     try {
-      const author = await this.authorsService.update(+id, updateAuthorDto);
+      const author = await this.authorsService.update(+id, updateAuthorDto, user);
       this.logger.info('[AUTHORS_CONTROLLER] Author update successful', {
         authorId: author.id,
       });
@@ -141,17 +172,19 @@ export class AuthorsController {
   }
 
   @Delete(':id')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete an author' })
   @ApiParam({ name: 'id', type: Number, description: 'Author ID' })
   @ApiResponse({ status: 204, description: 'The author has been successfully deleted.' })
   @ApiResponse({ status: 404, description: 'Author not found.' })
-  async remove(@Param('id') id: string) {
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     this.logger.info(`[AUTHORS_CONTROLLER] DELETE /authors/${id} - Deleting author`, {
       authorId: id,
     });
     try {
-      await this.authorsService.remove(+id);
+      await this.authorsService.remove(+id, user);
       this.logger.info('[AUTHORS_CONTROLLER] Author deletion successful', {
         authorId: id,
       });
@@ -163,4 +196,37 @@ export class AuthorsController {
       throw error;
     }
   }
+
+  @Post(':id/restore')
+  @Serialize(AuthorResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a deleted author' })
+  @ApiParam({ name: 'id', type: Number, description: 'Author ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The author has been successfully restored.',
+    type: AuthorResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Author not found.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Author is not deleted.' })
+  async restore(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[AUTHORS_CONTROLLER] POST /authors/${id}/restore - Restoring author`, {
+      authorId: id,
+    });
+    try {
+      const author = await this.authorsService.restore(+id, user);
+      this.logger.info('[AUTHORS_CONTROLLER] Author restore successful', {
+        authorId: author.id,
+      });
+      return author;
+    } catch (error) {
+      this.logger.error(`[AUTHORS_CONTROLLER] Failed to restore author ${id}`, {
+        authorId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
 }
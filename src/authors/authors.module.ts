@@ -5,12 +5,20 @@ import { AuthorsController } from './authors.controller';
 import { LoggerModule } from '../common/logger/logger.module';
 import { Author } from './entities/author.entity';
 import { Book } from '../books/entities/book.entity';
+import { SearchModule } from '../search/search.module';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Author, Book]), LoggerModule],
+  imports: [
+    TypeOrmModule.forFeature([Author, Book]),
+    SearchModule,
+    EventsModule,
+    AuditModule,
+    LoggerModule,
+  ],
   controllers: [AuthorsController],
   providers: [AuthorsService],
   exports: [AuthorsService],
 })
 export class AuthorsModule {}
-
@@ -1,10 +1,18 @@
 import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, Repository } from 'typeorm';
 import { Author } from './entities/author.entity';
 import { Book } from '../books/entities/book.entity';
 import { CreateAuthorDto } from './dto/create-author.dto';
 import { UpdateAuthorDto } from './dto/update-author.dto';
+import { QueryAuthorsDto } from './dto/query-authors.dto';
+import { SearchService } from '../search/search.service';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user';
+import { Paginated, paginate } from '../common/pagination.util';
+import { applyIncludes } from '../common/include.util';
+import { lockRow } from '../common/lock.util';
 import { Logger } from 'common-sense-logger';
 
 @Injectable()
@@ -12,15 +20,17 @@ export class AuthorsService {
   constructor(
     @InjectRepository(Author)
     private readonly authorRepository: Repository<Author>,
-    @InjectRepository(Book)
-    private readonly bookRepository: Repository<Book>,
+    private readonly searchService: SearchService,
+    private readonly eventsService: EventsService,
+    private readonly auditService: AuditService,
+    private readonly dataSource: DataSource,
     @Inject('LOGGER')
     private readonly logger: Logger,
   ) {
     this.logger.info('[AUTHORS_SERVICE] AuthorsService initialized');
   }
 
-  async create(createAuthorDto: CreateAuthorDto): Promise<Author> {
+  async create(createAuthorDto: CreateAuthorDto, actor?: AuthUser): Promise<Author> {
     this.logger.debug('[AUTHORS_SERVICE] Creating new author', {
       firstName: createAuthorDto.firstName,
       lastName: createAuthorDto.lastName,
@@ -31,12 +41,29 @@ export class AuthorsService {
       dateOfBirth: createAuthorDto.dateOfBirth ? new Date(createAuthorDto.dateOfBirth) : undefined,
     });
 
-    const savedAuthor = await this.authorRepository.save(author);
-    this.logger.info('[AUTHORS_SERVICE] Author created successfully', {
-      authorId: savedAuthor.id,
-      fullName: `${savedAuthor.firstName} ${savedAuthor.lastName}`,
+    const savedAuthor = await this.dataSource.transaction(async (manager) => {
+      const savedAuthor = await manager.save(author);
+      await this.eventsService.publish(
+        'AUTHOR_CREATED',
+        {
+          authorId: savedAuthor.id,
+          fullName: `${savedAuthor.firstName} ${savedAuthor.lastName}`,
+        },
+        manager,
+      );
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'AUTHOR',
+          entityId: savedAuthor.id,
+          action: 'CREATE',
+          after: savedAuthor,
+        },
+        manager,
+      );
+      return savedAuthor;
     });
-    this.logger.info('[BUSINESS_EVENT] AUTHOR_CREATED', {
+    this.logger.info('[AUTHORS_SERVICE] Author created successfully', {
       authorId: savedAuthor.id,
       fullName: `${savedAuthor.firstName} ${savedAuthor.lastName}`,
     });
@@ -44,20 +71,38 @@ export class AuthorsService {
     return savedAuthor;
   }
 
-  async findAll(): Promise<Author[]> {
-    const authors = await this.authorRepository.find();
+  async findAll(query: QueryAuthorsDto = {}): Promise<Paginated<Author>> {
+    const queryBuilder = applyIncludes(
+      this.authorRepository.createQueryBuilder('author'),
+      query.include,
+    );
+    if (query.includeDeleted) {
+      queryBuilder.withDeleted();
+    }
+    const result = await paginate(queryBuilder, query, {
+      path: '/authors',
+      sort: [{ column: 'id', order: 'ASC' }],
+    });
     this.logger.debug('[AUTHORS_SERVICE] Fetching all authors', {
-      totalAuthors: authors.length,
+      totalAuthors: result.total,
+      page: result.page,
     });
-    this.logger.debug(`[AUTHORS_SERVICE] Retrieved ${authors.length} authors`);
-    return authors;
+    this.logger.debug(`[AUTHORS_SERVICE] Retrieved ${result.data.length} authors`);
+    return result;
   }
 
-  async findOne(id: number): Promise<Author> {
+  async findOne(id: number, includeDeleted = false, include: string[] = []): Promise<Author> {
     this.logger.debug(`[AUTHORS_SERVICE] Fetching author with ID: ${id}`, {
       authorId: id,
+      include,
     });
-    const author = await this.authorRepository.findOne({ where: { id } });
+    const queryBuilder = this.authorRepository
+      .createQueryBuilder('author')
+      .where('author.id = :id', { id });
+    if (includeDeleted) {
+      queryBuilder.withDeleted();
+    }
+    const author = await applyIncludes(queryBuilder, include).getOne();
     if (!author) {
       this.logger.warn(`[AUTHORS_SERVICE] Author not found: ${id}`, {
         authorId: id,
@@ -71,7 +116,17 @@ export class AuthorsService {
     return author;
   }
 
-  async update(id: number, updateAuthorDto: UpdateAuthorDto): Promise<Author> {
+  // Case-insensitive exact match on both names; returns null when there is none
+  async findByName(firstName: string, lastName: string): Promise<Author | null> {
+    return this.authorRepository
+      .createQueryBuilder('author')
+      .where('LOWER(author.firstName) = LOWER(:firstName)', { firstName: firstName.trim() })
+      .andWhere('LOWER(author.lastName) = LOWER(:lastName)', { lastName: lastName.trim() })
+      .orderBy('author.id', 'ASC')
+      .getOne();
+  }
+
+  async update(id: number, updateAuthorDto: UpdateAuthorDto, actor?: AuthUser): Promise<Author> {
     this.logger.debug(`[AUTHORS_SERVICE] Updating author with ID: ${id}`, {
       authorId: id,
       updates: updateAuthorDto,
@@ -94,56 +149,127 @@ export class AuthorsService {
         : author.dateOfBirth,
     });
 
-    const updatedAuthor = await this.authorRepository.save(author);
+    const updatedAuthor = await this.dataSource.transaction(async (manager) => {
+      const updatedAuthor = await manager.save(author);
+      await this.eventsService.publish(
+        'AUTHOR_UPDATED',
+        {
+          authorId: id,
+          fullName: `${updatedAuthor.firstName} ${updatedAuthor.lastName}`,
+          changes: updateAuthorDto,
+        },
+        manager,
+      );
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'AUTHOR',
+          entityId: id,
+          action: 'UPDATE',
+          before: oldAuthor,
+          after: author,
+        },
+        manager,
+      );
+      // Author name and biography are part of each of their books' search vectors
+      await this.searchService.refreshAuthorBooks(id, manager);
+      return updatedAuthor;
+    });
     this.logger.info('[AUTHORS_SERVICE] Author updated successfully', {
       authorId: id,
       changes: Object.keys(updateAuthorDto),
     });
-    this.logger.info('[BUSINESS_EVENT] AUTHOR_UPDATED', {
+
+    return updatedAuthor;
+  }
+
+  async remove(id: number, actor?: AuthUser): Promise<void> {
+    this.logger.debug(`[AUTHORS_SERVICE] Deleting author with ID: ${id}`, {
       authorId: id,
-      fullName: `${updatedAuthor.firstName} ${updatedAuthor.lastName}`,
-      changes: updateAuthorDto,
     });
-    this.logger.debug('[AUTHORS_SERVICE] Author update details', {
+
+    // Creating or moving a book locks the author row too, so such a book is
+    // either counted here or rejected once it gets the lock
+    const author = await this.dataSource.transaction(async (manager) => {
+      await lockRow(manager, Author, id);
+      const author = await manager.findOne(Author, { where: { id } });
+      if (!author) {
+        this.logger.warn(`[AUTHORS_SERVICE] Author not found for deletion: ${id}`, {
+          authorId: id,
+        });
+        throw new NotFoundException(`Author with ID ${id} not found`);
+      }
+
+      const bookCount = await manager.count(Book, { where: { authorId: id } });
+      if (bookCount > 0) {
+        this.logger.warn(`[AUTHORS_SERVICE] Cannot delete author with books: ${id}`, {
+          authorId: id,
+          bookCount,
+        });
+        throw new BadRequestException(
+          `Cannot delete author with ID ${id}. This author has ${bookCount} book(s) associated. Please delete or reassign the books first.`,
+        );
+      }
+
+      await this.auditService.record(
+        { actor, entityType: 'AUTHOR', entityId: id, action: 'DELETE', before: author },
+        manager,
+      );
+      await manager.softRemove(author);
+      await this.eventsService.publish(
+        'AUTHOR_DELETED',
+        { authorId: id, fullName: `${author.firstName} ${author.lastName}` },
+        manager,
+      );
+      return author;
+    });
+    this.logger.info('[AUTHORS_SERVICE] Author deleted successfully', {
       authorId: id,
-      before: oldAuthor,
-      after: updatedAuthor,
+      fullName: `${author.firstName} ${author.lastName}`,
     });
-
-    return updatedAuthor;
   }
 
-  async remove(id: number): Promise<void> {
-    this.logger.debug(`[AUTHORS_SERVICE] Deleting author with ID: ${id}`, {
+  async restore(id: number, actor?: AuthUser): Promise<Author> {
+    this.logger.debug(`[AUTHORS_SERVICE] Restoring author with ID: ${id}`, {
       authorId: id,
     });
-    const author = await this.authorRepository.findOne({ where: { id } });
+    const author = await this.authorRepository.findOne({ where: { id }, withDeleted: true });
     if (!author) {
-      this.logger.warn(`[AUTHORS_SERVICE] Author not found for deletion: ${id}`, {
+      this.logger.warn(`[AUTHORS_SERVICE] Author not found for restore: ${id}`, {
         authorId: id,
       });
       throw new NotFoundException(`Author with ID ${id} not found`);
     }
-
-    const bookCount = await this.bookRepository.count({ where: { authorId: id } });
-    if (bookCount > 0) {
-      this.logger.warn(`[AUTHORS_SERVICE] Cannot delete author with books: ${id}`, {
-        authorId: id,
-        bookCount,
-      });
-      throw new BadRequestException(
-        `Cannot delete author with ID ${id}. This author has ${bookCount} book(s) associated. Please delete or reassign the books first.`,
-      );
+    if (!author.deletedAt) {
+      throw new BadRequestException(`Author with ID ${id} is not deleted`);
     }
 
-    await this.authorRepository.remove(author);
-    this.logger.info('[AUTHORS_SERVICE] Author deleted successfully', {
-      authorId: id,
-      fullName: `${author.firstName} ${author.lastName}`,
+    const oldAuthor = { ...author };
+    author.deletedAt = null;
+    await this.dataSource.transaction(async (manager) => {
+      await manager.restore(Author, id);
+      await this.eventsService.publish(
+        'AUTHOR_RESTORED',
+        { authorId: id, fullName: `${author.firstName} ${author.lastName}` },
+        manager,
+      );
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'AUTHOR',
+          entityId: id,
+          action: 'RESTORE',
+          before: oldAuthor,
+          after: author,
+        },
+        manager,
+      );
     });
-    this.logger.info('[BUSINESS_EVENT] AUTHOR_DELETED', {
+    this.logger.info('[AUTHORS_SERVICE] Author restored successfully', {
       authorId: id,
       fullName: `${author.firstName} ${author.lastName}`,
     });
+
+    return author;
   }
 }
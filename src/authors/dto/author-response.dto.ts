@@ -1,28 +1,80 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { BookResponseDto } from '../../books/dto/book-response.dto';
+import { DateOnly, DateTime } from '../../common/decorators/date-format.decorator';
 
 export class AuthorResponseDto {
   @ApiProperty({ example: 1, description: 'Unique identifier for the author' })
+  @Expose()
   id: number;
 
   @ApiProperty({ example: 'F. Scott', description: 'First name of the author' })
+  @Expose()
   firstName: string;
 
   @ApiProperty({ example: 'Fitzgerald', description: 'Last name of the author' })
+  @Expose()
   lastName: string;
 
-  @ApiProperty({ example: '1896-09-24', description: 'Date of birth', required: false })
-  dateOfBirth?: Date;
+  @ApiProperty({ example: 'F. Scott Fitzgerald', description: 'First and last name' })
+  @Expose()
+  get fullName(): string {
+    return `${this.firstName} ${this.lastName}`;
+  }
 
-  @ApiProperty({ example: 'American', description: 'Nationality', required: false })
-  nationality?: string;
+  @ApiProperty({
+    example: '1896-09-24',
+    format: 'date',
+    description: 'Date of birth',
+    nullable: true,
+    type: String,
+  })
+  @DateOnly()
+  @Expose()
+  dateOfBirth: string | null;
 
-  @ApiProperty({ description: 'Biography', required: false })
-  biography?: string;
+  @ApiProperty({ example: 'American', description: 'Nationality', nullable: true, type: String })
+  @Expose()
+  nationality: string | null;
 
-  @ApiProperty({ description: 'Date when the author was created' })
-  createdAt: Date;
+  @ApiProperty({ description: 'Biography', nullable: true, type: String })
+  @Expose()
+  biography: string | null;
 
-  @ApiProperty({ description: 'Date when the author was last updated' })
-  updatedAt: Date;
+  @ApiProperty({ format: 'date-time', description: 'Date when the author was created' })
+  @DateTime()
+  @Expose()
+  createdAt: string;
+
+  @ApiProperty({ format: 'date-time', description: 'Date when the author was last updated' })
+  @DateTime()
+  @Expose()
+  updatedAt: string;
+
+  @ApiProperty({
+    format: 'date-time',
+    description: 'Date when the author was deleted; only set with includeDeleted',
+    nullable: true,
+    type: String,
+  })
+  @DateTime()
+  @Expose()
+  deletedAt: string | null;
+
+  @ApiProperty({
+    type: () => [BookResponseDto],
+    description: "The author's books; only with include=books",
+    required: false,
+  })
+  @Expose()
+  @Type(() => BookResponseDto)
+  books?: BookResponseDto[];
 }
 
+export class PaginatedAuthorsResponseDto extends PaginatedResponseDto {
+  @ApiProperty({ type: [AuthorResponseDto] })
+  @Expose()
+  @Type(() => AuthorResponseDto)
+  data: AuthorResponseDto[];
+}
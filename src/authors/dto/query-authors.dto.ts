@@ -0,0 +1,33 @@
+import { IntersectionType } from '@nestjs/swagger';
+import { IncludeDeletedDto } from '../../common/dto/include-deleted.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ExpansionQueryDto } from '../../common/dto/expansion-query.dto';
+
+export const AUTHOR_INCLUDES = ['books'] as const;
+export const AUTHOR_FIELDS = [
+  'firstName',
+  'lastName',
+  'fullName',
+  'dateOfBirth',
+  'nationality',
+  'biography',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+export class AuthorExpansionQueryDto extends ExpansionQueryDto({
+  includes: AUTHOR_INCLUDES,
+  fields: AUTHOR_FIELDS,
+}) {}
+
+export class AuthorViewQueryDto extends IntersectionType(
+  IncludeDeletedDto,
+  AuthorExpansionQueryDto,
+) {}
+
+export class QueryAuthorsDto extends IntersectionType(
+  PaginationQueryDto,
+  IncludeDeletedDto,
+  AuthorExpansionQueryDto,
+) {}
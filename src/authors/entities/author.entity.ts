@@ -5,9 +5,13 @@ import {
   OneToMany,
   CreateDateColumn,
   UpdateDateColumn,
+  DeleteDateColumn,
+  Index,
 } from 'typeorm';
 import { Book } from '../../books/entities/book.entity';
 
+// Trigram index on the full name for autocomplete, created by the AddAutocompleteIndexes migration
+@Index('IDX_authors_name_trgm', { synchronize: false })
 @Entity('authors')
 export class Author {
   @PrimaryGeneratedColumn()
@@ -36,4 +40,8 @@ export class Author {
 
   @UpdateDateColumn()
   updatedAt: Date;
+
+  // Soft delete; purged by the catalog-purge job once past the retention window
+  @DeleteDateColumn({ nullable: true })
+  deletedAt?: Date;
 }
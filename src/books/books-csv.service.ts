@@ -0,0 +1,250 @@
+import { Injectable, BadRequestException, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Readable, pipeline } from 'stream';
+import { parse } from 'csv-parse/sync';
+import { stringify } from 'csv-stringify';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Book } from './entities/book.entity';
+import { BooksService } from './books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CATALOG_CSV_COLUMNS, ImportBookRowDto } from './dto/import-books.dto';
+import { ImportReportDto, ImportRowResultDto } from './dto/import-report.dto';
+import { toIsbn13 } from './isbn.util';
+import { AuthUser } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+type CsvRecord = Partial<Record<(typeof CATALOG_CSV_COLUMNS)[number], string>>;
+
+// Per-import state shared across rows
+interface ImportContext {
+  dryRun: boolean;
+  actor?: AuthUser;
+  seenIsbns: Map<string, number>;
+  // Lower-cased "first last" -> author ID, or null for an author a dry run would create
+  authorIds: Map<string, number | null>;
+  authorsCreated: number;
+}
+
+@Injectable()
+export class BooksCsvService {
+  private readonly MAX_IMPORT_ROWS = parseInt(process.env.CATALOG_IMPORT_MAX_ROWS || '5000', 10);
+
+  constructor(
+    @InjectRepository(Book)
+    private readonly bookRepository: Repository<Book>,
+    private readonly booksService: BooksService,
+    private readonly authorsService: AuthorsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[BOOKS_CSV_SERVICE] BooksCsvService initialized');
+  }
+
+  /**
+   * Imports books row by row through BooksService.create, so each book gets
+   * its copies, events and audit entry. Rows that fail are reported and
+   * skipped; the rest are still imported.
+   */
+  async import(file: Buffer, dryRun = false, actor?: AuthUser): Promise<ImportReportDto> {
+    let records: CsvRecord[];
+    try {
+      records = parse(file, { columns: true, bom: true, skip_empty_lines: true, trim: true });
+    } catch (error) {
+      throw new BadRequestException(`The file is not valid CSV: ${error.message}`);
+    }
+    if (records.length > this.MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file has ${records.length} rows; split it into files of at most ${this.MAX_IMPORT_ROWS}`,
+      );
+    }
+
+    this.logger.info('[BOOKS_CSV_SERVICE] Importing catalog CSV', {
+      rows: records.length,
+      dryRun,
+    });
+
+    const context: ImportContext = {
+      dryRun,
+      actor,
+      seenIsbns: new Map(),
+      authorIds: new Map(),
+      authorsCreated: 0,
+    };
+    const rows: ImportRowResultDto[] = [];
+    for (const [index, record] of records.entries()) {
+      rows.push(await this.importRow(index + 1, record, context));
+    }
+
+    const count = (...statuses: string[]) =>
+      rows.filter((row) => statuses.includes(row.status)).length;
+    const report: ImportReportDto = {
+      dryRun,
+      totalRows: rows.length,
+      imported: count('IMPORTED', 'VALID'),
+      duplicates: count('DUPLICATE'),
+      invalid: count('INVALID', 'FAILED'),
+      authorsCreated: context.authorsCreated,
+      rows,
+    };
+
+    this.logger.info('[BOOKS_CSV_SERVICE] Catalog import finished', {
+      dryRun,
+      totalRows: report.totalRows,
+      imported: report.imported,
+      duplicates: report.duplicates,
+      invalid: report.invalid,
+      authorsCreated: report.authorsCreated,
+    });
+    return report;
+  }
+
+  /**
+   * Streams the catalog as CSV straight from a database cursor, so memory
+   * use does not grow with the number of books.
+   */
+  async exportCsv(): Promise<Readable> {
+    const rows = await this.bookRepository
+      .createQueryBuilder('book')
+      .innerJoin('book.author', 'author')
+      .select('book.id', 'id')
+      .addSelect('book.title', 'title')
+      .addSelect('book.isbn', 'isbn')
+      .addSelect('author.firstName', 'authorFirstName')
+      .addSelect('author.lastName', 'authorLastName')
+      .addSelect('book.publishedYear', 'publishedYear')
+      .addSelect('book.genre', 'genre')
+      .addSelect('(SELECT COUNT(*)::int FROM "book_copies" c WHERE c."bookId" = book.id)', 'copies')
+      .addSelect('book.status', 'status')
+      .orderBy('book.id', 'ASC')
+      .stream();
+
+    const csv = stringify({ header: true, columns: ['id', ...CATALOG_CSV_COLUMNS, 'status'] });
+    pipeline(rows, csv, (error) => {
+      if (error) {
+        this.logger.error('[BOOKS_CSV_SERVICE] Catalog export failed', { stack: error.stack });
+      }
+    });
+    return csv;
+  }
+
+  private async importRow(
+    row: number,
+    record: CsvRecord,
+    context: ImportContext,
+  ): Promise<ImportRowResultDto> {
+    const dto = plainToInstance(ImportBookRowDto, {
+      title: record.title,
+      isbn: record.isbn,
+      authorFirstName: record.authorFirstName,
+      authorLastName: record.authorLastName,
+      publishedYear: this.toNumber(record.publishedYear),
+      genre: record.genre || undefined,
+      copies: this.toNumber(record.copies),
+    });
+    const isbn = record.isbn ?? '';
+
+    const validationErrors = await validate(dto);
+    if (validationErrors.length > 0) {
+      return {
+        row,
+        isbn,
+        status: 'INVALID',
+        errors: validationErrors.flatMap((error) => Object.values(error.constraints ?? {})),
+      };
+    }
+
+    const canonicalIsbn = toIsbn13(dto.isbn);
+    const earlierRow = context.seenIsbns.get(canonicalIsbn);
+    if (earlierRow !== undefined) {
+      return {
+        row,
+        isbn,
+        status: 'DUPLICATE',
+        errors: [`Same ISBN as row ${earlierRow}`],
+      };
+    }
+    context.seenIsbns.set(canonicalIsbn, row);
+
+    const existingBook = await this.bookRepository.findOne({
+      where: { isbn: canonicalIsbn },
+      withDeleted: true,
+    });
+    if (existingBook) {
+      return {
+        row,
+        isbn,
+        status: 'DUPLICATE',
+        bookId: existingBook.id,
+        errors: [
+          existingBook.deletedAt
+            ? 'A deleted book with this ISBN exists; restore it instead'
+            : 'A book with this ISBN already exists',
+        ],
+      };
+    }
+
+    try {
+      const authorId = await this.resolveAuthor(dto.authorFirstName, dto.authorLastName, context);
+      if (context.dryRun) {
+        return { row, isbn, status: 'VALID' };
+      }
+
+      const book = await this.booksService.create(
+        {
+          title: dto.title,
+          isbn: dto.isbn,
+          authorId,
+          publishedYear: dto.publishedYear,
+          genre: dto.genre,
+          copies: dto.copies,
+        },
+        context.actor,
+      );
+      return { row, isbn, status: 'IMPORTED', bookId: book.id };
+    } catch (error) {
+      this.logger.warn(`[BOOKS_CSV_SERVICE] Import row ${row} failed`, {
+        row,
+        isbn,
+        reason: error.message,
+      });
+      return { row, isbn, status: 'FAILED', errors: [error.message] };
+    }
+  }
+
+  /**
+   * Matches an existing author by name or creates one. In a dry run nothing
+   * is created; the author is remembered so later rows count it only once.
+   */
+  private async resolveAuthor(
+    firstName: string,
+    lastName: string,
+    context: ImportContext,
+  ): Promise<number | null> {
+    const key = `${firstName.trim()} ${lastName.trim()}`.toLowerCase();
+    if (context.authorIds.has(key)) {
+      return context.authorIds.get(key);
+    }
+
+    const author = await this.authorsService.findByName(firstName, lastName);
+    let authorId = author?.id ?? null;
+    if (!author) {
+      context.authorsCreated++;
+      if (!context.dryRun) {
+        const created = await this.authorsService.create(
+          { firstName: firstName.trim(), lastName: lastName.trim() },
+          context.actor,
+        );
+        authorId = created.id;
+      }
+    }
+    context.authorIds.set(key, authorId);
+    return authorId;
+  }
+
+  // Empty cells become undefined so optional columns can be left blank
+  private toNumber(value?: string): number | undefined {
+    return value ? Number(value) : undefined;
+  }
+}
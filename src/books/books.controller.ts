@@ -9,13 +9,37 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiProduces,
+} from '@nestjs/swagger';
 import { BooksService } from './books.service';
+import { BooksCsvService } from './books-csv.service';
 import { CreateBookDto } from './dto/create-book.dto';
 import { UpdateBookDto } from './dto/update-book.dto';
-import { BookResponseDto } from './dto/book-response.dto';
+import { BookResponseDto, PaginatedBooksResponseDto } from './dto/book-response.dto';
+import { AuditEntryResponseDto } from '../audit/dto/audit-entry-response.dto';
+import { QueryBooksDto, BookViewQueryDto, BookExpansionQueryDto } from './dto/query-books.dto';
+import { ImportBooksDto, ExportBooksDto } from './dto/import-books.dto';
+import { ImportReportDto } from './dto/import-report.dto';
 import { Inject } from '@nestjs/common';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser, assertCanIncludeDeleted } from '../auth/auth-user';
+import { Serialize } from '../common/decorators/serialize.decorator';
 import { Logger } from 'common-sense-logger';
 
 @ApiTags('books')
@@ -23,6 +47,7 @@ import { Logger } from 'common-sense-logger';
 export class BooksController {
   constructor(
     private readonly booksService: BooksService,
+    private readonly booksCsvService: BooksCsvService,
     @Inject('LOGGER')
     private readonly logger: Logger,
   ) {
@@ -30,6 +55,9 @@ export class BooksController {
   }
 
   @Post()
+  @Serialize(BookResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new book' })
   @ApiBody({ type: CreateBookDto })
   @ApiResponse({
@@ -38,13 +66,13 @@ export class BooksController {
     type: BookResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid input or ISBN already exists.' })
-  async create(@Body() createBookDto: CreateBookDto) {
+  async create(@Body() createBookDto: CreateBookDto, @CurrentUser() user: AuthUser) {
     this.logger.info('[BOOKS_CONTROLLER] POST /books - Creating new book', {
       title: createBookDto.title,
       isbn: createBookDto.isbn,
     });
     try {
-      const book = await this.booksService.create(createBookDto);
+      const book = await this.booksService.create(createBookDto, user);
       this.logger.info('[BOOKS_CONTROLLER] Book creation successful', {
         bookId: book.id,
       });
@@ -58,70 +86,101 @@ export class BooksController {
     }
   }
 
-  @Get()
-  @ApiOperation({ summary: 'Get all books with pagination' })
-  @ApiQuery({ name: 'authorId', required: false, type: Number, description: 'Filter by author ID' })
-  @ApiQuery({ name: 'genre', required: false, type: String, description: 'Filter by genre' })
-  @ApiQuery({
-    name: 'available',
-    required: false,
-    type: Boolean,
-    description: 'Filter by availability',
-  })
-  @ApiQuery({
-    name: 'page',
-    required: false,
-    type: Number,
-    description: 'Page number (default: 1)',
+  @Post('import')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Import books from a CSV file',
+    description:
+      'Columns: title, isbn, authorFirstName, authorLastName, publishedYear, genre, copies. Authors are matched by name or created. Each row is validated like POST /books; bad rows are reported and skipped.',
   })
-  @ApiQuery({
-    name: 'limit',
-    required: false,
-    type: Number,
-    description: 'Items per page (default: 20)',
-  })
-  @ApiResponse({
-    status: 200,
-    description: 'Paginated list of books',
+  @ApiBody({
     schema: {
       type: 'object',
-      properties: {
-        data: { type: 'array', items: { $ref: '#/components/schemas/BookResponseDto' } },
-        total: { type: 'number' },
-        page: { type: 'number' },
-        limit: { type: 'number' },
-        totalPages: { type: 'number' },
-      },
+      required: ['file'],
+      properties: { file: { type: 'string', format: 'binary' } },
     },
   })
-  async findAll(
-    @Query('authorId') authorId?: string,
-    @Query('genre') genre?: string,
-    @Query('available') available?: string,
-    @Query('page') page?: string,
-    @Query('limit') limit?: string,
+  @ApiResponse({ status: 200, description: 'Per-row import report', type: ImportReportDto })
+  @ApiResponse({ status: 400, description: 'Bad request - Missing file or malformed CSV.' })
+  @ApiResponse({ status: 413, description: 'File larger than 5 MB.' })
+  async import(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportBooksDto,
+    @CurrentUser() user: AuthUser,
   ) {
-    const pageNum = page ? Math.max(1, parseInt(page, 10)) : 1;
-    const limitNum = limit ? Math.max(1, Math.min(100, parseInt(limit, 10))) : 20;
+    if (!file) {
+      throw new BadRequestException('Upload the CSV file in the "file" field');
+    }
+    this.logger.info('[BOOKS_CONTROLLER] POST /books/import - Importing books', {
+      fileName: file.originalname,
+      size: file.size,
+      dryRun: query.dryRun ?? false,
+    });
+    try {
+      const report = await this.booksCsvService.import(file.buffer, query.dryRun, user);
+      this.logger.info('[BOOKS_CONTROLLER] Book import finished', {
+        imported: report.imported,
+        duplicates: report.duplicates,
+        invalid: report.invalid,
+      });
+      return report;
+    } catch (error) {
+      this.logger.error('[BOOKS_CONTROLLER] Failed to import books', {
+        fileName: file.originalname,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
 
-    this.logger.debug('[BOOKS_CONTROLLER] GET /books - Fetching books', {
-      filters: { authorId, genre, available },
-      pagination: { page: pageNum, limit: limitNum },
+  @Get('export')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @ApiProduces('text/csv')
+  @ApiOperation({
+    summary: 'Export the catalog',
+    description: 'Streams every book as CSV, in the column layout POST /books/import accepts.',
+  })
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  async export(@Query() query: ExportBooksDto) {
+    this.logger.info('[BOOKS_CONTROLLER] GET /books/export - Exporting catalog', {
+      format: query.format,
+    });
+    const stream = await this.booksCsvService.exportCsv();
+    return new StreamableFile(stream, {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="catalog.csv"',
     });
+  }
 
-    let result;
-    if (authorId) {
-      this.logger.info(`[BOOKS_CONTROLLER] Filtering books by author: ${authorId}`);
-      result = await this.booksService.findByAuthor(Number(authorId), pageNum, limitNum);
-    } else if (genre) {
-      this.logger.info(`[BOOKS_CONTROLLER] Filtering books by genre: ${genre}`);
-      result = await this.booksService.findByGenre(genre, pageNum, limitNum);
-    } else if (available === 'true') {
-      this.logger.info('[BOOKS_CONTROLLER] Filtering available books');
-      result = await this.booksService.findAvailable(pageNum, limitNum);
-    } else {
-      result = await this.booksService.findAll(pageNum, limitNum);
-    }
+  @Get()
+  @Serialize(PaginatedBooksResponseDto)
+  @Public()
+  @ApiOperation({
+    summary: 'Get all books with pagination',
+    description:
+      'All filters combine. Example: `?genre=Fiction&available=true&publishedYearFrom=1900&sort=publishedYear:desc,title:asc`. ' +
+      'Pages by `page` by default; pass `cursor=` instead to page by cursor and follow `links.next`.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of books',
+    type: PaginatedBooksResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid filter, sort or pagination parameter.',
+  })
+  @ApiResponse({ status: 403, description: 'includeDeleted requested by a non-staff caller.' })
+  async findAll(@Query() query: QueryBooksDto, @CurrentUser() user: AuthUser) {
+    this.logger.debug('[BOOKS_CONTROLLER] GET /books - Fetching books', { query });
+    assertCanIncludeDeleted(user, query.includeDeleted);
+
+    const result = await this.booksService.findAll(query);
 
     this.logger.debug(`[BOOKS_CONTROLLER] Returning ${result.data.length} books`, {
       total: result.total,
@@ -131,7 +190,31 @@ export class BooksController {
     return result;
   }
 
+  @Get('by-isbn/:isbn')
+  @Serialize(BookResponseDto)
+  @Public()
+  @ApiOperation({
+    summary: 'Get a book by ISBN',
+    description: 'Accepts ISBN-10 or ISBN-13, with or without hyphens.',
+  })
+  @ApiParam({ name: 'isbn', type: String, description: 'ISBN-10 or ISBN-13' })
+  @ApiResponse({
+    status: 200,
+    description: 'The book details',
+    type: BookResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Not a valid ISBN.' })
+  @ApiResponse({ status: 404, description: 'Book not found.' })
+  async findByIsbn(@Param('isbn') isbn: string, @Query() query: BookExpansionQueryDto) {
+    this.logger.debug(`[BOOKS_CONTROLLER] GET /books/by-isbn/${isbn} - Fetching book by ISBN`, {
+      isbn,
+    });
+    return this.booksService.findByIsbn(isbn, query.include);
+  }
+
   @Get(':id')
+  @Serialize(BookResponseDto)
+  @Public()
   @ApiOperation({ summary: 'Get a book by ID' })
   @ApiParam({ name: 'id', type: Number, description: 'Book ID' })
   @ApiResponse({
@@ -140,12 +223,17 @@ export class BooksController {
     type: BookResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Book not found.' })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Query() query: BookViewQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
     this.logger.debug(`[BOOKS_CONTROLLER] GET /books/${id} - Fetching book`, {
       bookId: id,
     });
+    assertCanIncludeDeleted(user, query.includeDeleted);
     try {
-      const book = await this.booksService.findOne(+id);
+      const book = await this.booksService.findOne(+id, query.includeDeleted, query.include);
       this.logger.debug('[BOOKS_CONTROLLER] Book retrieved successfully', {
         bookId: book.id,
         title: book.title,
@@ -160,7 +248,27 @@ export class BooksController {
     }
   }
 
+  @Get(':id/history')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get the audit timeline of a book',
+    description: 'Changes to the book and its copies, and the loans made against it, oldest first.',
+  })
+  @ApiParam({ name: 'id', type: Number, description: 'Book ID' })
+  @ApiResponse({ status: 200, description: 'Audit entries', type: [AuditEntryResponseDto] })
+  @ApiResponse({ status: 404, description: 'Book not found and no history recorded.' })
+  async findHistory(@Param('id') id: string) {
+    this.logger.debug(`[BOOKS_CONTROLLER] GET /books/${id}/history - Fetching book history`, {
+      bookId: id,
+    });
+    return this.booksService.findHistory(+id);
+  }
+
   @Patch(':id')
+  @Serialize(BookResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @ApiOperation({ summary: 'Update a book' })
   @ApiParam({ name: 'id', type: Number, description: 'Book ID' })
   @ApiBody({ type: UpdateBookDto })
@@ -171,13 +279,17 @@ export class BooksController {
   })
   @ApiResponse({ status: 404, description: 'Book not found.' })
   @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
-  async update(@Param('id') id: string, @Body() updateBookDto: UpdateBookDto) {
+  async update(
+    @Param('id') id: string,
+    @Body() updateBookDto: UpdateBookDto,
+    @CurrentUser() user: AuthUser,
+  ) {
     this.logger.info(`[BOOKS_CONTROLLER] PATCH /books/${id} - Updating book`, {
       bookId: id,
       updates: Object.keys(updateBookDto),
     });
     try {
-      const book = await this.booksService.update(+id, updateBookDto);
+      const book = await this.booksService.update(+id, updateBookDto, user);
       this.logger.info('[BOOKS_CONTROLLER] Book update successful', {
         bookId: book.id,
       });
@@ -193,17 +305,19 @@ export class BooksController {
   }
 
   @Delete(':id')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete a book' })
   @ApiParam({ name: 'id', type: Number, description: 'Book ID' })
   @ApiResponse({ status: 204, description: 'The book has been successfully deleted.' })
   @ApiResponse({ status: 404, description: 'Book not found.' })
-  async remove(@Param('id') id: string) {
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     this.logger.info(`[BOOKS_CONTROLLER] DELETE /books/${id} - Deleting book`, {
       bookId: id,
     });
     try {
-      await this.booksService.remove(+id);
+      await this.booksService.remove(+id, user);
       this.logger.info('[BOOKS_CONTROLLER] Book deletion successful', {
         bookId: id,
       });
@@ -215,4 +329,37 @@ export class BooksController {
       throw error;
     }
   }
+
+  @Post(':id/restore')
+  @Serialize(BookResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a deleted book' })
+  @ApiParam({ name: 'id', type: Number, description: 'Book ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The book has been successfully restored.',
+    type: BookResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Book not found.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Book is not deleted.' })
+  async restore(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[BOOKS_CONTROLLER] POST /books/${id}/restore - Restoring book`, {
+      bookId: id,
+    });
+    try {
+      const book = await this.booksService.restore(+id, user);
+      this.logger.info('[BOOKS_CONTROLLER] Book restore successful', {
+        bookId: book.id,
+      });
+      return book;
+    } catch (error) {
+      this.logger.error(`[BOOKS_CONTROLLER] Failed to restore book ${id}`, {
+        bookId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
 }
@@ -1,14 +1,32 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { BooksService } from './books.service';
+import { BooksCsvService } from './books-csv.service';
 import { BooksController } from './books.controller';
 import { LoggerModule } from '../common/logger/logger.module';
 import { Book } from './entities/book.entity';
+import { Author } from '../authors/entities/author.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { CopiesModule } from '../copies/copies.module';
+import { AuthorsModule } from '../authors/authors.module';
+import { SearchModule } from '../search/search.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Book]), LoggerModule],
+  imports: [
+    TypeOrmModule.forFeature([Book, Author, Borrowing]),
+    CopiesModule,
+    AuthorsModule,
+    SearchModule,
+    JobsModule,
+    EventsModule,
+    AuditModule,
+    LoggerModule,
+  ],
   controllers: [BooksController],
-  providers: [BooksService],
+  providers: [BooksService, BooksCsvService],
   exports: [BooksService],
 })
 export class BooksModule {}
@@ -1,93 +1,191 @@
-import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+  OnModuleInit,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, EntityManager, In, LessThan, Repository } from 'typeorm';
 import { Book } from './entities/book.entity';
+import { Author } from '../authors/entities/author.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
 import { CreateBookDto } from './dto/create-book.dto';
 import { UpdateBookDto } from './dto/update-book.dto';
+import {
+  QueryBooksDto,
+  BOOK_SORT_FIELDS,
+  BOOK_CURSOR_SORT_FIELDS,
+  BookSortField,
+} from './dto/query-books.dto';
+import { toIsbn13 } from './isbn.util';
+import { CopiesService } from '../copies/copies.service';
+import { SearchService } from '../search/search.service';
+import { JobsService } from '../jobs/jobs.service';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditLogEntry } from '../audit/entities/audit-log-entry.entity';
+import { AuthUser } from '../auth/auth-user';
+import { Paginated, SortKey, paginate } from '../common/pagination.util';
+import { applyIncludes } from '../common/include.util';
+import { lockRow } from '../common/lock.util';
 import { Logger } from 'common-sense-logger';
 
 @Injectable()
-export class BooksService {
+export class BooksService implements OnModuleInit {
+  private readonly RETENTION_DAYS = parseInt(process.env.SOFT_DELETE_RETENTION_DAYS || '30', 10);
+  private readonly PURGE_CRON = process.env.CATALOG_PURGE_CRON || '30 3 * * *';
+
   constructor(
     @InjectRepository(Book)
     private readonly bookRepository: Repository<Book>,
+    @InjectRepository(Borrowing)
+    private readonly borrowingRepository: Repository<Borrowing>,
+    private readonly copiesService: CopiesService,
+    private readonly searchService: SearchService,
+    private readonly jobsService: JobsService,
+    private readonly eventsService: EventsService,
+    private readonly auditService: AuditService,
+    private readonly dataSource: DataSource,
     @Inject('LOGGER')
     private readonly logger: Logger,
   ) {
     this.logger.info('[BOOKS_SERVICE] BooksService initialized');
   }
 
-  async create(createBookDto: CreateBookDto): Promise<Book> {
+  onModuleInit(): void {
+    this.jobsService.register({
+      name: 'catalog-purge',
+      cron: this.PURGE_CRON,
+      run: () => this.purgeDeleted(),
+    });
+  }
+
+  async create(createBookDto: CreateBookDto, actor?: AuthUser): Promise<Book> {
     this.logger.debug('[BOOKS_SERVICE] Creating new book', {
       title: createBookDto.title,
       isbn: createBookDto.isbn,
       authorId: createBookDto.authorId,
     });
 
-    // Check if ISBN already exists
+    // Check if ISBN already exists in either format; a soft-deleted book still holds its ISBN
+    const isbn = this.canonicalIsbn(createBookDto.isbn);
     const existingBook = await this.bookRepository.findOne({
-      where: { isbn: createBookDto.isbn },
+      where: { isbn },
+      withDeleted: true,
     });
     if (existingBook) {
       this.logger.warn('[BOOKS_SERVICE] Attempted to create book with duplicate ISBN', {
-        isbn: createBookDto.isbn,
+        isbn,
         existingBookId: existingBook.id,
       });
-      throw new BadRequestException('A book with this ISBN already exists');
+      throw new BadRequestException(this.duplicateIsbnMessage(existingBook));
     }
 
-    const book = this.bookRepository.create({
-      ...createBookDto,
-      available: createBookDto.available ?? true,
+    const { copies = 1, ...bookData } = createBookDto;
+    const book = this.bookRepository.create({ ...bookData, isbn });
+
+    const savedBook = await this.dataSource.transaction(async (manager) => {
+      await this.assertAuthorExists(manager, book.authorId);
+      const savedBook = await manager.save(book);
+      await this.eventsService.publish(
+        'BOOK_CREATED',
+        { bookId: savedBook.id, title: savedBook.title },
+        manager,
+      );
+      await this.auditService.record(
+        { actor, entityType: 'BOOK', entityId: savedBook.id, action: 'CREATE', after: savedBook },
+        manager,
+      );
+      // Copies and the search vector commit with the book, so a failure leaves no partial book
+      await this.copiesService.addCopies(savedBook.id, copies, actor, manager);
+      await this.searchService.refreshBook(savedBook.id, manager);
+      return savedBook;
     });
-
-    const savedBook = await this.bookRepository.save(book);
     this.logger.info('[BOOKS_SERVICE] Book created successfully', {
       bookId: savedBook.id,
       title: savedBook.title,
       isbn: savedBook.isbn,
-    });
-    this.logger.info('[BUSINESS_EVENT] BOOK_CREATED', {
-      bookId: savedBook.id,
-      title: savedBook.title,
+      copies,
     });
 
-    return savedBook;
+    // Reload so the copy counts reflect the copies just registered
+    return this.bookRepository.findOne({ where: { id: savedBook.id } });
   }
 
-  async findAll(
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ data: Book[]; total: number; page: number; limit: number; totalPages: number }> {
-    const skip = (page - 1) * limit;
-    const [books, total] = await this.bookRepository.findAndCount({
-      skip,
-      take: limit,
-      order: { id: 'ASC' },
-    });
+  async findAll(query: QueryBooksDto = {}): Promise<Paginated<Book>> {
+    if (
+      query.publishedYearFrom !== undefined &&
+      query.publishedYearTo !== undefined &&
+      query.publishedYearFrom > query.publishedYearTo
+    ) {
+      throw new BadRequestException('publishedYearFrom must not be after publishedYearTo');
+    }
 
-    const totalPages = Math.ceil(total / limit);
+    const queryBuilder = applyIncludes(
+      this.bookRepository.createQueryBuilder('book'),
+      query.include,
+    );
 
-    this.logger.debug('[BOOKS_SERVICE] Fetching books with pagination', {
-      page,
-      limit,
-      total,
-      totalPages,
-      returned: books.length,
+    if (query.includeDeleted) {
+      queryBuilder.withDeleted();
+    }
+
+    if (query.authorId !== undefined) {
+      queryBuilder.andWhere('book.authorId = :authorId', { authorId: query.authorId });
+    }
+    if (query.status) {
+      queryBuilder.andWhere('book.status = :status', { status: query.status });
+    }
+    if (query.genre) {
+      queryBuilder.andWhere('LOWER(book.genre) LIKE LOWER(:genre)', { genre: `%${query.genre}%` });
+    }
+    if (query.available !== undefined) {
+      queryBuilder.andWhere(
+        `${query.available ? '' : 'NOT '}(book.status = 'ACTIVE' AND EXISTS (SELECT 1 FROM "book_copies" copy WHERE copy."bookId" = book.id AND copy.status = 'AVAILABLE'))`,
+      );
+    }
+    if (query.publishedYearFrom !== undefined) {
+      queryBuilder.andWhere('book.publishedYear >= :yearFrom', {
+        yearFrom: query.publishedYearFrom,
+      });
+    }
+    if (query.publishedYearTo !== undefined) {
+      queryBuilder.andWhere('book.publishedYear <= :yearTo', { yearTo: query.publishedYearTo });
+    }
+    if (query.titlePrefix) {
+      // Escape LIKE wildcards so the prefix matches literally
+      queryBuilder.andWhere('LOWER(book.title) LIKE LOWER(:titlePrefix)', {
+        titlePrefix: `${query.titlePrefix.replace(/[\\%_]/g, '\\$&')}%`,
+      });
+    }
+
+    const result = await paginate(queryBuilder, query, {
+      path: '/books',
+      sort: this.sortKeys(query.sort, query.cursor !== undefined),
+    });
+
+    this.logger.debug('[BOOKS_SERVICE] Fetching books with filters', {
+      filters: query,
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+      totalPages: result.totalPages,
+      returned: result.data.length,
     });
 
-    return {
-      data: books,
-      total,
-      page,
-      limit,
-      totalPages,
-    };
+    return result;
   }
 
-  async findOne(id: number): Promise<Book> {
-    this.logger.debug(`[BOOKS_SERVICE] Fetching book with ID: ${id}`, { bookId: id });
-    const book = await this.bookRepository.findOne({ where: { id } });
+  async findOne(id: number, includeDeleted = false, include: string[] = []): Promise<Book> {
+    this.logger.debug(`[BOOKS_SERVICE] Fetching book with ID: ${id}`, { bookId: id, include });
+    const queryBuilder = this.bookRepository
+      .createQueryBuilder('book')
+      .where('book.id = :id', { id });
+    if (includeDeleted) {
+      queryBuilder.withDeleted();
+    }
+    const book = await applyIncludes(queryBuilder, include).getOne();
     if (!book) {
       this.logger.warn(`[BOOKS_SERVICE] Book not found: ${id}`, { bookId: id });
       throw new NotFoundException(`Book with ID ${id} not found`);
@@ -99,101 +197,21 @@ export class BooksService {
     return book;
   }
 
-  async findByAuthor(
-    authorId: number,
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ data: Book[]; total: number; page: number; limit: number; totalPages: number }> {
-    const skip = (page - 1) * limit;
-    const [books, total] = await this.bookRepository.findAndCount({
-      where: { authorId },
-      skip,
-      take: limit,
-      order: { id: 'ASC' },
-    });
-
-    const totalPages = Math.ceil(total / limit);
-
-    this.logger.info(`[BOOKS_SERVICE] Found ${books.length} books for author ${authorId}`, {
-      authorId,
-      count: books.length,
-      total,
-      page,
-      totalPages,
-    });
-
-    return {
-      data: books,
-      total,
-      page,
-      limit,
-      totalPages,
-    };
-  }
-
-  async findByGenre(
-    genre: string,
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ data: Book[]; total: number; page: number; limit: number; totalPages: number }> {
-    const skip = (page - 1) * limit;
+  async findByIsbn(isbn: string, include: string[] = []): Promise<Book> {
+    const canonical = this.canonicalIsbn(isbn);
+    this.logger.debug(`[BOOKS_SERVICE] Fetching book with ISBN: ${canonical}`, { isbn, include });
     const queryBuilder = this.bookRepository
       .createQueryBuilder('book')
-      .where('LOWER(book.genre) LIKE LOWER(:genre)', { genre: `%${genre}%` })
-      .orderBy('book.id', 'ASC');
-
-    const [books, total] = await queryBuilder.skip(skip).take(limit).getManyAndCount();
-
-    const totalPages = Math.ceil(total / limit);
-
-    this.logger.info(`[BOOKS_SERVICE] Found ${books.length} books in genre "${genre}"`, {
-      genre,
-      count: books.length,
-      total,
-      page,
-      totalPages,
-    });
-
-    return {
-      data: books,
-      total,
-      page,
-      limit,
-      totalPages,
-    };
-  }
-
-  async findAvailable(
-    page: number = 1,
-    limit: number = 20,
-  ): Promise<{ data: Book[]; total: number; page: number; limit: number; totalPages: number }> {
-    const skip = (page - 1) * limit;
-    const [books, total] = await this.bookRepository.findAndCount({
-      where: { available: true },
-      skip,
-      take: limit,
-      order: { id: 'ASC' },
-    });
-
-    const totalPages = Math.ceil(total / limit);
-
-    this.logger.info(`[BOOKS_SERVICE] Found ${books.length} available books`, {
-      availableCount: books.length,
-      total,
-      page,
-      totalPages,
-    });
-
-    return {
-      data: books,
-      total,
-      page,
-      limit,
-      totalPages,
-    };
+      .where('book.isbn = :isbn', { isbn: canonical });
+    const book = await applyIncludes(queryBuilder, include).getOne();
+    if (!book) {
+      this.logger.warn(`[BOOKS_SERVICE] Book not found for ISBN: ${canonical}`, { isbn });
+      throw new NotFoundException(`Book with ISBN ${isbn} not found`);
+    }
+    return book;
   }
 
-  async update(id: number, updateBookDto: UpdateBookDto): Promise<Book> {
+  async update(id: number, updateBookDto: UpdateBookDto, actor?: AuthUser): Promise<Book> {
     this.logger.debug(`[BOOKS_SERVICE] Updating book with ID: ${id}`, {
       bookId: id,
       updates: updateBookDto,
@@ -211,8 +229,10 @@ export class BooksService {
 
     // Check if ISBN is being updated and already exists
     if (updateBookDto.isbn) {
+      updateBookDto = { ...updateBookDto, isbn: this.canonicalIsbn(updateBookDto.isbn) };
       const existingBook = await this.bookRepository.findOne({
         where: { isbn: updateBookDto.isbn },
+        withDeleted: true,
       });
       if (existingBook && existingBook.id !== id) {
         this.logger.warn('[BOOKS_SERVICE] Attempted to update book with duplicate ISBN', {
@@ -220,49 +240,222 @@ export class BooksService {
           isbn: updateBookDto.isbn,
           existingBookId: existingBook.id,
         });
-        throw new BadRequestException('A book with this ISBN already exists');
+        throw new BadRequestException(this.duplicateIsbnMessage(existingBook));
       }
     }
 
     Object.assign(book, updateBookDto);
-    const updatedBook = await this.bookRepository.save(book);
+    await this.dataSource.transaction(async (manager) => {
+      if (book.authorId !== oldBook.authorId) {
+        await this.assertAuthorExists(manager, book.authorId);
+      }
+      const updatedBook = await manager.save(book);
+      await this.eventsService.publish(
+        'BOOK_UPDATED',
+        { bookId: id, title: updatedBook.title, changes: updateBookDto },
+        manager,
+      );
+      await this.auditService.record(
+        { actor, entityType: 'BOOK', entityId: id, action: 'UPDATE', before: oldBook, after: book },
+        manager,
+      );
+      await this.searchService.refreshBook(id, manager);
+    });
 
     this.logger.info('[BOOKS_SERVICE] Book updated successfully', {
       bookId: id,
       changes: Object.keys(updateBookDto),
     });
-    this.logger.info('[BUSINESS_EVENT] BOOK_UPDATED', {
-      bookId: id,
-      title: updatedBook.title,
-      changes: updateBookDto,
-    });
-    this.logger.debug('[BOOKS_SERVICE] Book update details', {
-      bookId: id,
-      before: oldBook,
-      after: updatedBook,
-    });
 
-    return updatedBook;
+    // Reload so availability reflects a status change
+    return this.bookRepository.findOne({ where: { id } });
   }
 
-  async remove(id: number): Promise<void> {
+  async remove(id: number, actor?: AuthUser): Promise<void> {
     this.logger.debug(`[BOOKS_SERVICE] Deleting book with ID: ${id}`, { bookId: id });
-    const book = await this.bookRepository.findOne({ where: { id } });
-    if (!book) {
-      this.logger.warn(`[BOOKS_SERVICE] Book not found for deletion: ${id}`, {
-        bookId: id,
+
+    // Borrowing locks the book row too, so a loan is either counted here or
+    // finds the book deleted once it gets the lock
+    const book = await this.dataSource.transaction(async (manager) => {
+      await lockRow(manager, Book, id);
+      const book = await manager.findOne(Book, { where: { id } });
+      if (!book) {
+        this.logger.warn(`[BOOKS_SERVICE] Book not found for deletion: ${id}`, {
+          bookId: id,
+        });
+        throw new NotFoundException(`Book with ID ${id} not found`);
+      }
+
+      const activeLoanCount = await manager.count(Borrowing, {
+        where: { bookId: id, status: In(['BORROWED', 'OVERDUE']) },
       });
-      throw new NotFoundException(`Book with ID ${id} not found`);
-    }
+      if (activeLoanCount > 0) {
+        this.logger.warn(`[BOOKS_SERVICE] Cannot delete book with active loans: ${id}`, {
+          bookId: id,
+          activeLoanCount,
+        });
+        throw new BadRequestException(
+          `Cannot delete book with ID ${id}. It has ${activeLoanCount} active loan(s). Set its status to WITHDRAWN instead.`,
+        );
+      }
 
-    await this.bookRepository.remove(book);
+      await this.auditService.record(
+        { actor, entityType: 'BOOK', entityId: id, action: 'DELETE', before: book },
+        manager,
+      );
+      await manager.softRemove(book);
+      await this.eventsService.publish('BOOK_DELETED', { bookId: id, title: book.title }, manager);
+      return book;
+    });
     this.logger.info('[BOOKS_SERVICE] Book deleted successfully', {
       bookId: id,
       title: book.title,
     });
-    this.logger.info('[BUSINESS_EVENT] BOOK_DELETED', {
+  }
+
+  async restore(id: number, actor?: AuthUser): Promise<Book> {
+    this.logger.debug(`[BOOKS_SERVICE] Restoring book with ID: ${id}`, { bookId: id });
+    const book = await this.bookRepository.findOne({ where: { id }, withDeleted: true });
+    if (!book) {
+      this.logger.warn(`[BOOKS_SERVICE] Book not found for restore: ${id}`, { bookId: id });
+      throw new NotFoundException(`Book with ID ${id} not found`);
+    }
+    if (!book.deletedAt) {
+      throw new BadRequestException(`Book with ID ${id} is not deleted`);
+    }
+
+    const oldBook = { ...book };
+    book.deletedAt = null;
+    await this.dataSource.transaction(async (manager) => {
+      await lockRow(manager, Author, book.authorId);
+      if (!(await manager.exists(Author, { where: { id: book.authorId } }))) {
+        this.logger.warn('[BOOKS_SERVICE] Cannot restore book of a deleted author', {
+          bookId: id,
+          authorId: book.authorId,
+        });
+        throw new BadRequestException(
+          `Cannot restore book with ID ${id} while its author (ID ${book.authorId}) is deleted. Restore the author first.`,
+        );
+      }
+      await manager.restore(Book, id);
+      await this.eventsService.publish('BOOK_RESTORED', { bookId: id, title: book.title }, manager);
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'BOOK',
+          entityId: id,
+          action: 'RESTORE',
+          before: oldBook,
+          after: book,
+        },
+        manager,
+      );
+    });
+    this.logger.info('[BOOKS_SERVICE] Book restored successfully', {
       bookId: id,
       title: book.title,
     });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Hard-deletes books and authors soft-deleted longer ago than the retention
+   * window. Copies and holds go with their book. Books with loan history are
+   * kept so the borrowings and fines that reference them stay intact, and an
+   * author is only purged once none of their books are left.
+   */
+  async purgeDeleted() {
+    const cutoff = new Date(Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+    const result = await this.dataSource.transaction(async (manager) => {
+      const { raw: books } = await manager
+        .createQueryBuilder()
+        .delete()
+        .from(Book)
+        .where('"deletedAt" < :cutoff', { cutoff })
+        .andWhere('NOT EXISTS (SELECT 1 FROM "borrowings" b WHERE b."bookId" = "books"."id")')
+        .returning(['id'])
+        .execute();
+      const { raw: authors } = await manager
+        .createQueryBuilder()
+        .delete()
+        .from(Author)
+        .where('"deletedAt" < :cutoff', { cutoff })
+        .andWhere('NOT EXISTS (SELECT 1 FROM "books" b WHERE b."authorId" = "authors"."id")')
+        .returning(['id'])
+        .execute();
+      const keptBooks = await manager
+        .getRepository(Book)
+        .count({ where: { deletedAt: LessThan(cutoff) }, withDeleted: true });
+
+      return { purgedBooks: books.length, purgedAuthors: authors.length, keptBooks };
+    });
+
+    this.logger.info('[BOOKS_SERVICE] Purged soft-deleted catalog records', {
+      ...result,
+      retentionDays: this.RETENTION_DAYS,
+    });
+    return result;
+  }
+
+  async findHistory(id: number): Promise<AuditLogEntry[]> {
+    const history = await this.auditService.findBookHistory(id);
+    // A purged book keeps its history; only ids that never existed are a 404
+    if (history.length === 0) {
+      await this.findOne(id, true);
+    }
+    return history;
+  }
+
+  /**
+   * Locks the author row, which AuthorsService.remove locks before counting
+   * the author's books, so a book is never attached to an author being deleted.
+   */
+  private async assertAuthorExists(manager: EntityManager, authorId: number): Promise<void> {
+    await lockRow(manager, Author, authorId);
+    if (!(await manager.exists(Author, { where: { id: authorId } }))) {
+      this.logger.warn(`[BOOKS_SERVICE] Author not found: ${authorId}`, { authorId });
+      throw new BadRequestException(`Author with ID ${authorId} not found`);
+    }
+  }
+
+  private canonicalIsbn(isbn: string): string {
+    const canonical = toIsbn13(isbn);
+    if (!canonical) {
+      throw new BadRequestException(`"${isbn}" is not a valid ISBN-10 or ISBN-13`);
+    }
+    return canonical;
+  }
+
+  private duplicateIsbnMessage(existingBook: Book): string {
+    return existingBook.deletedAt
+      ? `A deleted book with this ISBN exists (ID ${existingBook.id}); restore it instead`
+      : 'A book with this ISBN already exists';
+  }
+
+  /**
+   * Turns `field:dir` sort terms into sort keys, always ending on id so pages
+   * stay stable when the requested fields tie.
+   */
+  private sortKeys(sort: string | undefined, cursorMode: boolean): SortKey[] {
+    const keys: SortKey[] = (sort || 'id:asc').split(',').map((term) => {
+      const [field, direction = 'asc'] = term.split(':');
+      const column = BOOK_SORT_FIELDS.find((name) => name.toLowerCase() === field.toLowerCase());
+      return { column, order: direction.toUpperCase() as 'ASC' | 'DESC' };
+    });
+
+    const unsupported = keys.find(
+      ({ column }) => !BOOK_CURSOR_SORT_FIELDS.includes(column as BookSortField),
+    );
+    if (cursorMode && unsupported) {
+      throw new BadRequestException(
+        `Cursor pagination cannot sort by ${unsupported.column}; use ${BOOK_CURSOR_SORT_FIELDS.join(', ')} or page instead`,
+      );
+    }
+    if (!keys.some(({ column }) => column === 'id')) {
+      keys.push({ column: 'id', order: 'ASC' });
+    }
+    return keys;
   }
 }
@@ -1,31 +1,99 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { DateTime } from '../../common/decorators/date-format.decorator';
+import { AuthorResponseDto } from '../../authors/dto/author-response.dto';
+import { BOOK_STATUSES, BookStatus } from '../entities/book.entity';
 
 export class BookResponseDto {
   @ApiProperty({ example: 1, description: 'Unique identifier for the book' })
+  @Expose()
   id: number;
 
   @ApiProperty({ example: 'The Great Gatsby', description: 'Title of the book' })
+  @Expose()
   title: string;
 
-  @ApiProperty({ example: '978-0-7432-7356-5', description: 'ISBN number' })
+  @ApiProperty({ example: '9780743273565', description: 'ISBN-13, digits only' })
+  @Expose()
   isbn: string;
 
+  @ApiProperty({
+    example: '0743273567',
+    description: 'ISBN-10 equivalent; null for 979-prefixed ISBNs, which have none',
+    nullable: true,
+  })
+  @Expose()
+  isbn10: string | null;
+
   @ApiProperty({ example: 1, description: 'ID of the author' })
+  @Expose()
   authorId: number;
 
   @ApiProperty({ example: 1925, description: 'Year the book was published' })
+  @Expose()
   publishedYear: number;
 
-  @ApiProperty({ example: 'Fiction', description: 'Genre of the book', required: false })
-  genre?: string;
+  @ApiProperty({ example: 'Fiction', description: 'Genre of the book', nullable: true })
+  @Expose()
+  genre: string | null;
+
+  @ApiProperty({
+    example: 'ACTIVE',
+    description: 'Catalog status of the book',
+    enum: BOOK_STATUSES,
+  })
+  @Expose()
+  status: BookStatus;
+
+  @ApiProperty({ example: 3, description: 'Number of physical copies owned' })
+  @Expose()
+  totalCopies: number;
+
+  @ApiProperty({ example: 2, description: 'Number of copies currently available to borrow' })
+  @Expose()
+  availableCopies: number;
 
-  @ApiProperty({ example: true, description: 'Whether the book is available' })
+  @ApiProperty({
+    example: true,
+    description: 'Whether the book is ACTIVE and at least one copy is available',
+  })
+  @Expose()
   available: boolean;
 
-  @ApiProperty({ description: 'Date when the book was created' })
-  createdAt: Date;
+  @ApiProperty({ format: 'date-time', description: 'Date when the book was created' })
+  @DateTime()
+  @Expose()
+  createdAt: string;
 
-  @ApiProperty({ description: 'Date when the book was last updated' })
-  updatedAt: Date;
+  @ApiProperty({ format: 'date-time', description: 'Date when the book was last updated' })
+  @DateTime()
+  @Expose()
+  updatedAt: string;
+
+  @ApiProperty({
+    format: 'date-time',
+    description: 'Date when the book was deleted; only set with includeDeleted',
+    nullable: true,
+    type: String,
+  })
+  @DateTime()
+  @Expose()
+  deletedAt: string | null;
+
+  @ApiProperty({
+    type: () => AuthorResponseDto,
+    description: 'The author; only with include=author',
+    required: false,
+  })
+  @Expose()
+  @Type(() => AuthorResponseDto)
+  author?: AuthorResponseDto;
 }
 
+export class PaginatedBooksResponseDto extends PaginatedResponseDto {
+  @ApiProperty({ type: [BookResponseDto] })
+  @Expose()
+  @Type(() => BookResponseDto)
+  data: BookResponseDto[];
+}
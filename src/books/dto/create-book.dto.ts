@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsNumber, IsOptional, IsBoolean, Min, Max } from 'class-validator';
+import { IsString, IsNotEmpty, IsNumber, IsOptional, IsInt, Min, Max } from 'class-validator';
+import { IsIsbn } from '../validators/is-isbn.validator';
 
 export class CreateBookDto {
   @ApiProperty({
@@ -11,11 +12,11 @@ export class CreateBookDto {
   title: string;
 
   @ApiProperty({
-    description: 'ISBN number of the book',
+    description:
+      'ISBN-10 or ISBN-13 of the book, with or without hyphens; stored as bare ISBN-13 digits',
     example: '978-0-7432-7356-5',
   })
-  @IsString()
-  @IsNotEmpty()
+  @IsIsbn()
   isbn: string;
 
   @ApiProperty({
@@ -47,13 +48,16 @@ export class CreateBookDto {
   genre?: string;
 
   @ApiProperty({
-    description: 'Whether the book is available for borrowing',
-    example: true,
-    default: true,
+    description: 'Number of physical copies to register for the new book',
+    example: 1,
+    default: 1,
+    minimum: 0,
+    maximum: 100,
     required: false,
   })
-  @IsBoolean()
+  @IsInt()
+  @Min(0)
+  @Max(100)
   @IsOptional()
-  available?: boolean;
+  copies?: number;
 }
-
@@ -0,0 +1,48 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { CreateBookDto } from './create-book.dto';
+
+// Columns read from an import file; exports add id and status, which imports ignore
+export const CATALOG_CSV_COLUMNS = [
+  'title',
+  'isbn',
+  'authorFirstName',
+  'authorLastName',
+  'publishedYear',
+  'genre',
+  'copies',
+] as const;
+
+export class ImportBooksDto {
+  @ApiProperty({
+    description: 'Validate and report without creating anything',
+    default: false,
+    required: false,
+  })
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  @IsOptional()
+  dryRun?: boolean;
+}
+
+/**
+ * One CSV row. Same rules as CreateBookDto, except the author is named
+ * rather than referenced by ID.
+ */
+export class ImportBookRowDto extends OmitType(CreateBookDto, ['authorId'] as const) {
+  @IsString()
+  @IsNotEmpty()
+  authorFirstName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  authorLastName: string;
+}
+
+export class ExportBooksDto {
+  @ApiProperty({ description: 'File format', enum: ['csv'], default: 'csv', required: false })
+  @IsIn(['csv'])
+  @IsOptional()
+  format?: string = 'csv';
+}
@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export const IMPORT_ROW_STATUSES = ['IMPORTED', 'VALID', 'DUPLICATE', 'INVALID', 'FAILED'] as const;
+export type ImportRowStatus = (typeof IMPORT_ROW_STATUSES)[number];
+
+export class ImportRowResultDto {
+  @ApiProperty({ example: 1, description: 'Row number; row 1 is the first line after the header' })
+  row: number;
+
+  @ApiProperty({ example: '978-0-7432-7356-5', description: 'ISBN as given in the file' })
+  isbn: string;
+
+  @ApiProperty({
+    enum: IMPORT_ROW_STATUSES,
+    description:
+      'IMPORTED: book created; VALID: would be created (dry run); DUPLICATE: ISBN already in the catalog or earlier in the file; INVALID: failed validation; FAILED: rejected while saving',
+  })
+  status: ImportRowStatus;
+
+  @ApiProperty({
+    example: 42,
+    description: 'The created book, or the existing book for a duplicate',
+    required: false,
+  })
+  bookId?: number;
+
+  @ApiProperty({ type: [String], required: false })
+  errors?: string[];
+}
+
+export class ImportReportDto {
+  @ApiProperty({ example: false })
+  dryRun: boolean;
+
+  @ApiProperty({ example: 120, description: 'Data rows in the file' })
+  totalRows: number;
+
+  @ApiProperty({ example: 115, description: 'Rows imported, or that would be in a dry run' })
+  imported: number;
+
+  @ApiProperty({ example: 3 })
+  duplicates: number;
+
+  @ApiProperty({ example: 2, description: 'Rows that failed validation or could not be saved' })
+  invalid: number;
+
+  @ApiProperty({ example: 4, description: 'Authors created, or that would be in a dry run' })
+  authorsCreated: number;
+
+  @ApiProperty({ type: [ImportRowResultDto] })
+  rows: ImportRowResultDto[];
+}
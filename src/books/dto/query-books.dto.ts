@@ -0,0 +1,132 @@
+import { ApiProperty, IntersectionType } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsBoolean,
+  Min,
+  Matches,
+  IsIn,
+} from 'class-validator';
+import { IncludeDeletedDto } from '../../common/dto/include-deleted.dto';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ExpansionQueryDto } from '../../common/dto/expansion-query.dto';
+import { BOOK_STATUSES, BookStatus } from '../entities/book.entity';
+
+export const BOOK_SORT_FIELDS = ['id', 'title', 'publishedYear', 'genre', 'createdAt'] as const;
+export type BookSortField = (typeof BOOK_SORT_FIELDS)[number];
+
+// Cursor pagination seeks on the sort values, so it needs non-null columns
+// that round-trip exactly through JSON (createdAt has sub-millisecond precision)
+export const BOOK_CURSOR_SORT_FIELDS: BookSortField[] = ['id', 'title', 'publishedYear'];
+
+const SORT_TERM = `(${BOOK_SORT_FIELDS.join('|')})(:(asc|desc))?`;
+const SORT_PATTERN = new RegExp(`^${SORT_TERM}(,${SORT_TERM})*$`, 'i');
+
+export const BOOK_INCLUDES = ['author'] as const;
+export const BOOK_FIELDS = [
+  'title',
+  'isbn',
+  'isbn10',
+  'authorId',
+  'publishedYear',
+  'genre',
+  'status',
+  'totalCopies',
+  'availableCopies',
+  'available',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+] as const;
+
+export class BookExpansionQueryDto extends ExpansionQueryDto({
+  includes: BOOK_INCLUDES,
+  fields: BOOK_FIELDS,
+}) {}
+
+export class BookViewQueryDto extends IntersectionType(IncludeDeletedDto, BookExpansionQueryDto) {}
+
+export class QueryBooksDto extends IntersectionType(
+  PaginationQueryDto,
+  IncludeDeletedDto,
+  BookExpansionQueryDto,
+) {
+  @ApiProperty({ description: 'Filter by author ID', example: 1, required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  authorId?: number;
+
+  @ApiProperty({
+    description: 'Filter by genre (case-insensitive, partial match)',
+    example: 'Fiction',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  genre?: string;
+
+  @ApiProperty({
+    description: 'Filter by catalog status',
+    enum: BOOK_STATUSES,
+    required: false,
+  })
+  @IsIn(BOOK_STATUSES)
+  @IsOptional()
+  status?: BookStatus;
+
+  @ApiProperty({
+    description: 'true: ACTIVE with at least one copy available; false: not available to borrow',
+    required: false,
+  })
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  @IsOptional()
+  available?: boolean;
+
+  @ApiProperty({
+    description: 'Only books published in or after this year',
+    example: 1900,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  publishedYearFrom?: number;
+
+  @ApiProperty({
+    description: 'Only books published in or before this year',
+    example: 1950,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @IsOptional()
+  publishedYearTo?: number;
+
+  @ApiProperty({
+    description: 'Only books whose title starts with this text (case-insensitive)',
+    example: 'The',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  titlePrefix?: string;
+
+  @ApiProperty({
+    description: `Comma-separated sort terms as field:asc|desc, applied in order. Fields: ${BOOK_SORT_FIELDS.join(', ')} (cursor mode: ${BOOK_CURSOR_SORT_FIELDS.join(', ')})`,
+    example: 'publishedYear:desc,title:asc',
+    required: false,
+  })
+  @Matches(SORT_PATTERN, {
+    message: `sort must be a comma-separated list of field:asc|desc using: ${BOOK_SORT_FIELDS.join(', ')}`,
+  })
+  @IsOptional()
+  sort?: string;
+}
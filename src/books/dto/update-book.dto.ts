@@ -1,5 +1,15 @@
-import { PartialType } from '@nestjs/swagger';
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
 import { CreateBookDto } from './create-book.dto';
+import { BOOK_STATUSES, BookStatus } from '../entities/book.entity';
 
-export class UpdateBookDto extends PartialType(CreateBookDto) {}
-
+export class UpdateBookDto extends PartialType(OmitType(CreateBookDto, ['copies'] as const)) {
+  @ApiProperty({
+    description: 'Catalog status; only ACTIVE books can be borrowed or placed on hold',
+    enum: BOOK_STATUSES,
+    required: false,
+  })
+  @IsIn(BOOK_STATUSES)
+  @IsOptional()
+  status?: BookStatus;
+}
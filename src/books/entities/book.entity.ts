@@ -1,6 +1,27 @@
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  DeleteDateColumn,
+  VirtualColumn,
+  AfterLoad,
+  Index,
+} from 'typeorm';
 import { Author } from '../../authors/entities/author.entity';
+import { BookCopy } from '../../copies/entities/book-copy.entity';
+import { toIsbn10 } from '../isbn.util';
 
+// Catalog lifecycle; only ACTIVE books can be borrowed or held
+export const BOOK_STATUSES = ['ACTIVE', 'WITHDRAWN', 'LOST', 'ARCHIVED'] as const;
+export type BookStatus = (typeof BOOK_STATUSES)[number];
+
+// Trigram index for autocomplete, created by the AddAutocompleteIndexes migration
+@Index('IDX_books_title_trgm', { synchronize: false })
 @Entity('books')
 export class Book {
   @PrimaryGeneratedColumn()
@@ -9,9 +30,13 @@ export class Book {
   @Column()
   title: string;
 
+  // Bare ISBN-13 digits, see isbn.util
   @Column({ unique: true })
   isbn: string;
 
+  // Derived from isbn; not stored
+  isbn10: string | null;
+
   @Column()
   authorId: number;
 
@@ -25,13 +50,54 @@ export class Book {
   @Column({ nullable: true })
   genre?: string;
 
-  @Column({ default: true })
+  @Column({
+    type: 'enum',
+    enum: BOOK_STATUSES,
+    default: 'ACTIVE',
+  })
+  status: BookStatus;
+
+  @OneToMany(() => BookCopy, (copy) => copy.book)
+  copies: BookCopy[];
+
+  @VirtualColumn({
+    type: 'int',
+    query: (alias) => `SELECT COUNT(*)::int FROM "book_copies" WHERE "bookId" = ${alias}."id"`,
+  })
+  totalCopies: number;
+
+  @VirtualColumn({
+    type: 'int',
+    query: (alias) =>
+      `SELECT COUNT(*)::int FROM "book_copies" WHERE "bookId" = ${alias}."id" AND "status" = 'AVAILABLE'`,
+  })
+  availableCopies: number;
+
+  // Derived from status and availableCopies; not stored
   available: boolean;
 
+  // Maintained by SearchService; the GIN index is created by the AddCatalogSearch migration
+  @Index('IDX_books_search_vector', { synchronize: false })
+  @Column({ type: 'tsvector', nullable: true, select: false })
+  searchVector?: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
   @UpdateDateColumn()
   updatedAt: Date;
-}
 
+  // Set by soft delete; such rows are hidden from queries unless withDeleted is used
+  @DeleteDateColumn({ nullable: true })
+  deletedAt?: Date;
+
+  @AfterLoad()
+  computeAvailability() {
+    this.available = this.status === 'ACTIVE' && this.availableCopies > 0;
+  }
+
+  @AfterLoad()
+  computeIsbn10() {
+    this.isbn10 = this.isbn ? toIsbn10(this.isbn) : null;
+  }
+}
@@ -0,0 +1,30 @@
+import { isValidIsbn, stripIsbn, toIsbn10, toIsbn13 } from './isbn.util';
+
+describe('isbn.util', () => {
+  it('strips hyphens and spaces and upper-cases the check digit', () => {
+    expect(stripIsbn('0-8044-2957-x')).toBe('080442957X');
+    expect(stripIsbn('978 0 7432 7356 5')).toBe('9780743273565');
+  });
+
+  it('accepts valid ISBN-10s and ISBN-13s and rejects bad check digits', () => {
+    expect(isValidIsbn('0-7432-7356-7')).toBe(true);
+    expect(isValidIsbn('080442957X')).toBe(true);
+    expect(isValidIsbn('978-0-7432-7356-5')).toBe(true);
+    expect(isValidIsbn('0-7432-7356-8')).toBe(false);
+    expect(isValidIsbn('978-0-7432-7356-4')).toBe(false);
+    expect(isValidIsbn('123-4-5678-9012-3')).toBe(false);
+  });
+
+  it('normalizes either format to the bare ISBN-13', () => {
+    expect(toIsbn13('0-7432-7356-7')).toBe('9780743273565');
+    expect(toIsbn13('978-0-7432-7356-5')).toBe('9780743273565');
+    expect(toIsbn13('080442957x')).toBe('9780804429573');
+    expect(toIsbn13('not an isbn')).toBeNull();
+  });
+
+  it('derives the ISBN-10 only for 978-prefixed ISBNs', () => {
+    expect(toIsbn10('9780743273565')).toBe('0743273567');
+    expect(toIsbn10('9780804429573')).toBe('080442957X');
+    expect(toIsbn10('979-10-90636-07-1')).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * ISBNs are stored as bare ISBN-13 digits, e.g. "978-0-7432-7356-5" and the
+ * equivalent ISBN-10 "0-7432-7356-7" are both stored as 9780743273565.
+ * Input may use hyphens or spaces in either format.
+ */
+
+// Drops hyphens and spaces; an ISBN-10 check digit may be a lowercase x
+export function stripIsbn(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+function isbn10CheckDigit(first9: string): string {
+  const sum = [...first9].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3),
+    0,
+  );
+  return String((10 - (sum % 10)) % 10);
+}
+
+export function isValidIsbn10(value: string): boolean {
+  const isbn = stripIsbn(value);
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9];
+}
+
+export function isValidIsbn13(value: string): boolean {
+  const isbn = stripIsbn(value);
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12];
+}
+
+export function isValidIsbn(value: string): boolean {
+  return isValidIsbn10(value) || isValidIsbn13(value);
+}
+
+/**
+ * Returns the bare ISBN-13 for a valid ISBN-10 or ISBN-13, or null when the
+ * value is neither.
+ */
+export function toIsbn13(value: string): string | null {
+  const isbn = stripIsbn(value);
+  if (isValidIsbn13(isbn)) {
+    return isbn;
+  }
+  if (isValidIsbn10(isbn)) {
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  return null;
+}
+
+/**
+ * Returns the bare ISBN-10 for a valid ISBN, or null when there is none.
+ * Only 978-prefixed ISBN-13s have an ISBN-10 equivalent.
+ */
+export function toIsbn10(value: string): string | null {
+  const isbn13 = toIsbn13(value);
+  if (!isbn13 || !isbn13.startsWith('978')) {
+    return null;
+  }
+  const first9 = isbn13.slice(3, 12);
+  return first9 + isbn10CheckDigit(first9);
+}
@@ -0,0 +1,34 @@
+import {
+  registerDecorator,
+  ValidationOptions,
+  ValidatorConstraint,
+  ValidatorConstraintInterface,
+  ValidationArguments,
+} from 'class-validator';
+import { isValidIsbn } from '../isbn.util';
+
+@ValidatorConstraint({ name: 'isIsbn', async: false })
+export class IsIsbnConstraint implements ValidatorConstraintInterface {
+  validate(value: unknown): boolean {
+    return typeof value === 'string' && isValidIsbn(value);
+  }
+
+  defaultMessage(args: ValidationArguments): string {
+    return `${args.property} must be a valid ISBN-10 or ISBN-13 (hyphens and spaces are allowed)`;
+  }
+}
+
+/**
+ * Accepts an ISBN-10 or ISBN-13 with a correct check digit.
+ */
+export function IsIsbn(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      constraints: [],
+      validator: IsIsbnConstraint,
+    });
+  };
+}
@@ -15,15 +15,22 @@ import {
   ApiOperation,
   ApiResponse,
   ApiParam,
-  ApiQuery,
   ApiBody,
+  ApiBearerAuth,
 } from '@nestjs/swagger';
 import { BorrowingsService } from './borrowings.service';
 import { CreateBorrowingDto } from './dto/create-borrowing.dto';
-import { BorrowingResponseDto } from './dto/borrowing-response.dto';
+import { QueryBorrowingsDto, BorrowingExpansionQueryDto } from './dto/query-borrowings.dto';
+import { BorrowingResponseDto, PaginatedBorrowingsResponseDto } from './dto/borrowing-response.dto';
+import { BorrowingRenewalResponseDto } from './dto/borrowing-renewal-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser, assertPatronAccess, isStaff } from '../auth/auth-user';
+import { Serialize } from '../common/decorators/serialize.decorator';
 import { Logger } from 'common-sense-logger';
 
 @ApiTags('borrowings')
+@ApiBearerAuth()
 @Controller('borrowings')
 export class BorrowingsController {
   constructor(
@@ -35,6 +42,8 @@ export class BorrowingsController {
   }
 
   @Post()
+  @Serialize(BorrowingResponseDto)
+  @Roles('ADMIN', 'LIBRARIAN')
   @ApiOperation({ summary: 'Borrow a book' })
   @ApiBody({ type: CreateBorrowingDto })
   @ApiResponse({
@@ -42,15 +51,19 @@ export class BorrowingsController {
     description: 'The book has been successfully borrowed.',
     type: BorrowingResponseDto,
   })
-  @ApiResponse({ status: 400, description: 'Bad request - Book not available or already borrowed.' })
-  @ApiResponse({ status: 404, description: 'Book not found.' })
-  async borrow(@Body() createBorrowingDto: CreateBorrowingDto) {
+  @ApiResponse({ status: 400, description: 'Bad request - Patron is not allowed to borrow.' })
+  @ApiResponse({ status: 404, description: 'Book or patron not found.' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - No copy of the book is available (e.g. a concurrent borrow took it).',
+  })
+  async borrow(@Body() createBorrowingDto: CreateBorrowingDto, @CurrentUser() user: AuthUser) {
     this.logger.info('[BORROWINGS_CONTROLLER] POST /borrowings - Borrowing book', {
       bookId: createBorrowingDto.bookId,
-      borrowerName: createBorrowingDto.borrowerName,
+      patronId: createBorrowingDto.patronId,
     });
     try {
-      const borrowing = await this.borrowingsService.borrow(createBorrowingDto);
+      const borrowing = await this.borrowingsService.borrow(createBorrowingDto, user);
       this.logger.info('[BORROWINGS_CONTROLLER] Book borrowing successful', {
         borrowingId: borrowing.id,
       });
@@ -65,35 +78,41 @@ export class BorrowingsController {
   }
 
   @Get()
-  @ApiOperation({ summary: 'Get all borrowings' })
-  @ApiQuery({ name: 'bookId', required: false, type: Number, description: 'Filter by book ID' })
+  @Serialize(PaginatedBorrowingsResponseDto)
+  @ApiOperation({ summary: 'Get all borrowings with pagination, newest first' })
   @ApiResponse({
     status: 200,
-    description: 'List of all borrowings',
-    type: [BorrowingResponseDto],
+    description: 'Paginated list of borrowings',
+    type: PaginatedBorrowingsResponseDto,
   })
-  async findAll(
-    @Query('bookId') bookId?: string,
-  ) {
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid filter or pagination parameter.',
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own borrowings.' })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async findAll(@Query() query: QueryBorrowingsDto, @CurrentUser() user: AuthUser) {
+    if (!isStaff(user)) {
+      // Also rejects a patron account that is not linked to a patron record
+      assertPatronAccess(user, query.patronId ?? user.patronId);
+      query.patronId = user.patronId;
+      query.bookId = undefined;
+    }
     this.logger.debug('[BORROWINGS_CONTROLLER] GET /borrowings - Fetching borrowings', {
-      filters: { bookId },
+      filters: { bookId: query.bookId, patronId: query.patronId },
     });
 
-    let result;
-    if (bookId) {
-      this.logger.info(`[BORROWINGS_CONTROLLER] Filtering borrowings by book: ${bookId}`);
-      result = await this.borrowingsService.findByBook(Number(bookId));
-    } else {
-      result = await this.borrowingsService.findAll();
-    }
+    const result = await this.borrowingsService.findAll(query);
 
-    this.logger.debug(`[BORROWINGS_CONTROLLER] Returning ${result.length} borrowings`, {
-      count: result.length,
+    this.logger.debug(`[BORROWINGS_CONTROLLER] Returning ${result.data.length} borrowings`, {
+      count: result.data.length,
+      total: result.total,
     });
     return result;
   }
 
   @Get(':id')
+  @Serialize(BorrowingResponseDto)
   @ApiOperation({ summary: 'Get a borrowing by ID' })
   @ApiParam({ name: 'id', type: Number, description: 'Borrowing ID' })
   @ApiResponse({
@@ -101,13 +120,19 @@ export class BorrowingsController {
     description: 'The borrowing details',
     type: BorrowingResponseDto,
   })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own borrowings.' })
   @ApiResponse({ status: 404, description: 'Borrowing not found.' })
-  async findOne(@Param('id') id: string) {
+  async findOne(
+    @Param('id') id: string,
+    @Query() query: BorrowingExpansionQueryDto,
+    @CurrentUser() user: AuthUser,
+  ) {
     this.logger.debug(`[BORROWINGS_CONTROLLER] GET /borrowings/${id} - Fetching borrowing`, {
       borrowingId: id,
     });
     try {
-      const borrowing = await this.borrowingsService.findOne(+id);
+      const borrowing = await this.borrowingsService.findOne(+id, query.include);
+      assertPatronAccess(user, borrowing.patronId);
       this.logger.debug('[BORROWINGS_CONTROLLER] Borrowing retrieved successfully', {
         borrowingId: borrowing.id,
         bookId: borrowing.bookId,
@@ -123,6 +148,7 @@ export class BorrowingsController {
   }
 
   @Patch(':id/return')
+  @Serialize(BorrowingResponseDto)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Return a borrowed book' })
   @ApiParam({ name: 'id', type: Number, description: 'Borrowing ID' })
@@ -131,14 +157,16 @@ export class BorrowingsController {
     description: 'The book has been successfully returned.',
     type: BorrowingResponseDto,
   })
-  @ApiResponse({ status: 400, description: 'Bad request - Book already returned.' })
+  @ApiResponse({ status: 403, description: 'Patrons can only return their own borrowings.' })
   @ApiResponse({ status: 404, description: 'Borrowing not found.' })
-  async returnBook(@Param('id') id: string) {
+  @ApiResponse({ status: 409, description: 'Conflict - Book already returned.' })
+  async returnBook(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     this.logger.info(`[BORROWINGS_CONTROLLER] PATCH /borrowings/${id}/return - Returning book`, {
       borrowingId: id,
     });
     try {
-      const borrowing = await this.borrowingsService.returnBook(+id);
+      await this.assertBorrowingAccess(+id, user);
+      const borrowing = await this.borrowingsService.returnBook(+id, user);
       this.logger.info('[BORROWINGS_CONTROLLER] Book return successful', {
         borrowingId: borrowing.id,
         status: borrowing.status,
@@ -152,4 +180,71 @@ export class BorrowingsController {
       throw error;
     }
   }
+
+  @Patch(':id/renew')
+  @Serialize(BorrowingResponseDto)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Renew a loan, pushing its due date forward' })
+  @ApiParam({ name: 'id', type: Number, description: 'Borrowing ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The loan has been successfully renewed.',
+    type: BorrowingResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad request - Already returned, renewal limit reached, overdue past the grace period, or patrons waiting.',
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only renew their own borrowings.' })
+  @ApiResponse({ status: 404, description: 'Borrowing not found.' })
+  async renew(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[BORROWINGS_CONTROLLER] PATCH /borrowings/${id}/renew - Renewing loan`, {
+      borrowingId: id,
+    });
+    try {
+      await this.assertBorrowingAccess(+id, user);
+      const borrowing = await this.borrowingsService.renew(+id, user);
+      this.logger.info('[BORROWINGS_CONTROLLER] Loan renewal successful', {
+        borrowingId: borrowing.id,
+        renewalCount: borrowing.renewalCount,
+      });
+      return borrowing;
+    } catch (error) {
+      this.logger.error(`[BORROWINGS_CONTROLLER] Failed to renew borrowing ${id}`, {
+        borrowingId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get(':id/renewals')
+  @ApiOperation({ summary: 'Get the renewal history of a loan' })
+  @ApiParam({ name: 'id', type: Number, description: 'Borrowing ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Renewals of the loan, oldest first',
+    type: [BorrowingRenewalResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own borrowings.' })
+  @ApiResponse({ status: 404, description: 'Borrowing not found.' })
+  async findRenewals(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.debug(
+      `[BORROWINGS_CONTROLLER] GET /borrowings/${id}/renewals - Fetching renewals`,
+      {
+        borrowingId: id,
+      },
+    );
+    await this.assertBorrowingAccess(+id, user);
+    return this.borrowingsService.findRenewals(+id);
+  }
+
+  private async assertBorrowingAccess(id: number, user: AuthUser): Promise<void> {
+    if (isStaff(user)) {
+      return;
+    }
+    const borrowing = await this.borrowingsService.findOne(id);
+    assertPatronAccess(user, borrowing.patronId);
+  }
 }
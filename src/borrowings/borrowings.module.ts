@@ -3,14 +3,34 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { BorrowingsService } from './borrowings.service';
 import { BorrowingsController } from './borrowings.controller';
 import { BooksModule } from '../books/books.module';
+import { PatronsModule } from '../patrons/patrons.module';
+import { CopiesModule } from '../copies/copies.module';
+import { HoldsModule } from '../holds/holds.module';
+import { FinesModule } from '../fines/fines.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
+import { MetricsModule } from '../metrics/metrics.module';
 import { LoggerModule } from '../common/logger/logger.module';
 import { Borrowing } from './entities/borrowing.entity';
+import { BorrowingRenewal } from './entities/borrowing-renewal.entity';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Borrowing]), BooksModule, LoggerModule],
+  imports: [
+    TypeOrmModule.forFeature([Borrowing, BorrowingRenewal]),
+    BooksModule,
+    PatronsModule,
+    CopiesModule,
+    HoldsModule,
+    FinesModule,
+    JobsModule,
+    EventsModule,
+    AuditModule,
+    MetricsModule,
+    LoggerModule,
+  ],
   controllers: [BorrowingsController],
   providers: [BorrowingsService],
   exports: [BorrowingsService],
 })
 export class BorrowingsModule {}
-
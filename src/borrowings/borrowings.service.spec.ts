@@ -0,0 +1,115 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduleModule } from '@nestjs/schedule';
+import { DataSource, In } from 'typeorm';
+import { PostgresConnectionOptions } from 'typeorm/driver/postgres/PostgresConnectionOptions';
+import { randomUUID } from 'crypto';
+import { BorrowingsModule } from './borrowings.module';
+import { BorrowingsService } from './borrowings.service';
+import { Borrowing } from './entities/borrowing.entity';
+import { Author } from '../authors/entities/author.entity';
+import { Book } from '../books/entities/book.entity';
+import { BookCopy } from '../copies/entities/book-copy.entity';
+import { Patron } from '../patrons/entities/patron.entity';
+import { dataSourceOptions } from '../database/data-source';
+
+/**
+ * Needs a real Postgres, since the book row lock and the partial unique index
+ * on active loans are what is under test. It only runs when TEST_DATABASE_NAME
+ * names a dedicated database, which is migrated first; the other DATABASE_*
+ * variables supply the connection.
+ */
+const TEST_DATABASE_NAME = process.env.TEST_DATABASE_NAME;
+const describeWithDatabase = TEST_DATABASE_NAME ? describe : describe.skip;
+
+describeWithDatabase('BorrowingsService (Postgres)', () => {
+  const PARALLEL_BORROWS = 8;
+
+  let moduleRef: TestingModule;
+  let borrowingsService: BorrowingsService;
+  let dataSource: DataSource;
+  let author: Author;
+  let book: Book;
+  let copy: BookCopy;
+  let patrons: Patron[];
+
+  beforeAll(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        TypeOrmModule.forRoot({
+          ...(dataSourceOptions as PostgresConnectionOptions),
+          database: TEST_DATABASE_NAME,
+          migrationsRun: true,
+        }),
+        ScheduleModule.forRoot(),
+        BorrowingsModule,
+      ],
+    })
+      .overrideProvider('LOGGER')
+      .useValue({ info: () => {}, debug: () => {}, warn: () => {}, error: () => {} })
+      .compile();
+
+    borrowingsService = moduleRef.get(BorrowingsService);
+    dataSource = moduleRef.get(DataSource);
+
+    const suffix = randomUUID();
+    author = await dataSource
+      .getRepository(Author)
+      .save({ firstName: 'Parallel', lastName: `Borrow ${suffix}` });
+    book = await dataSource.getRepository(Book).save({
+      title: `Parallel borrow ${suffix}`,
+      isbn: `TEST-${suffix}`,
+      authorId: author.id,
+      publishedYear: 2000,
+    });
+    copy = await dataSource.getRepository(BookCopy).save({
+      bookId: book.id,
+      barcode: `TEST-${suffix}`,
+      status: 'AVAILABLE',
+      acquisitionDate: new Date(),
+    });
+    patrons = await dataSource.getRepository(Patron).save(
+      Array.from({ length: PARALLEL_BORROWS }, (_, index) => ({
+        cardNumber: `TEST-${suffix}-${index}`,
+        name: `Parallel Patron ${index}`,
+      })),
+    );
+  }, 60000);
+
+  afterAll(async () => {
+    if (book) {
+      await dataSource.getRepository(Borrowing).delete({ bookId: book.id });
+      await dataSource.getRepository(BookCopy).delete({ bookId: book.id });
+      await dataSource.getRepository(Book).delete({ id: book.id });
+      await dataSource.getRepository(Author).delete({ id: author.id });
+      await dataSource.getRepository(Patron).delete({ id: In(patrons.map(({ id }) => id)) });
+    }
+    await moduleRef?.close();
+  });
+
+  it('lends the last copy to exactly one of several parallel borrowers', async () => {
+    const results = await Promise.allSettled(
+      patrons.map((patron) =>
+        borrowingsService.borrow({ bookId: book.id, patronId: patron.id, borrowDays: 14 }),
+      ),
+    );
+
+    const fulfilled = results.filter((result) => result.status === 'fulfilled');
+    const rejected = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(PARALLEL_BORROWS - 1);
+    for (const { reason } of rejected) {
+      expect(reason).toBeInstanceOf(ConflictException);
+    }
+
+    const activeLoans = await dataSource.getRepository(Borrowing).count({
+      where: { copyId: copy.id, status: In(['BORROWED', 'OVERDUE']) },
+    });
+    expect(activeLoans).toBe(1);
+    const { status } = await dataSource.getRepository(BookCopy).findOneBy({ id: copy.id });
+    expect(status).toBe('BORROWED');
+  }, 30000);
+});
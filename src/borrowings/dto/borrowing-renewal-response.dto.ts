@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BorrowingRenewalResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the renewal' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the renewed borrowing' })
+  borrowingId: number;
+
+  @ApiProperty({ example: '2024-02-01', description: 'Due date before the renewal' })
+  previousDueDate: Date;
+
+  @ApiProperty({ example: '2024-02-15', description: 'Due date after the renewal' })
+  newDueDate: Date;
+
+  @ApiProperty({ description: 'When the renewal happened' })
+  renewedAt: Date;
+}
@@ -1,35 +1,112 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+import { PaginatedResponseDto } from '../../common/dto/paginated-response.dto';
+import { BookResponseDto } from '../../books/dto/book-response.dto';
+import { DateOnly, DateTime } from '../../common/decorators/date-format.decorator';
 
 export class BorrowingResponseDto {
   @ApiProperty({ example: 1, description: 'Unique identifier for the borrowing' })
+  @Expose()
   id: number;
 
   @ApiProperty({ example: 1, description: 'ID of the borrowed book' })
+  @Expose()
   bookId: number;
 
-  @ApiProperty({ example: 'John Doe', description: 'Name of the borrower' })
-  borrowerName: string;
+  @ApiProperty({ example: 1, description: 'ID of the physical copy that was lent' })
+  @Expose()
+  copyId: number;
 
-  @ApiProperty({ description: 'Date when the book was borrowed' })
-  borrowedDate: Date;
+  @ApiProperty({ example: 1, description: 'ID of the borrowing patron' })
+  @Expose()
+  patronId: number;
 
-  @ApiProperty({ description: 'Date when the book is due to be returned' })
-  dueDate: Date;
+  @ApiProperty({
+    example: 'John Doe',
+    description: 'Legacy free-text borrower name (only set on pre-patron records)',
+    nullable: true,
+    type: String,
+  })
+  @Expose()
+  borrowerName: string | null;
+
+  @ApiProperty({
+    example: '2024-03-01',
+    format: 'date',
+    description: 'Date when the book was borrowed',
+  })
+  @DateOnly()
+  @Expose()
+  borrowedDate: string;
 
-  @ApiProperty({ description: 'Date when the book was returned', required: false })
-  returnedDate?: Date;
+  @ApiProperty({
+    example: '2024-03-15',
+    format: 'date',
+    description: 'Date when the book is due to be returned',
+  })
+  @DateOnly()
+  @Expose()
+  dueDate: string;
+
+  @ApiProperty({
+    example: null,
+    format: 'date',
+    description: 'Date when the book was returned',
+    nullable: true,
+    type: String,
+  })
+  @DateOnly()
+  @Expose()
+  returnedDate: string | null;
 
   @ApiProperty({
     example: 'BORROWED',
     enum: ['BORROWED', 'RETURNED', 'OVERDUE'],
     description: 'Status of the borrowing',
   })
+  @Expose()
   status: 'BORROWED' | 'RETURNED' | 'OVERDUE';
 
-  @ApiProperty({ description: 'Date when the borrowing record was created' })
-  createdAt: Date;
+  @ApiProperty({ example: 0, description: 'Number of times the loan has been renewed' })
+  @Expose()
+  renewalCount: number;
 
-  @ApiProperty({ description: 'Date when the borrowing record was last updated' })
-  updatedAt: Date;
+  @ApiProperty({
+    format: 'date-time',
+    description: 'When the loan was last renewed',
+    nullable: true,
+    type: String,
+  })
+  @DateTime()
+  @Expose()
+  lastRenewedAt: string | null;
+
+  @ApiProperty({ format: 'date-time', description: 'Date when the borrowing record was created' })
+  @DateTime()
+  @Expose()
+  createdAt: string;
+
+  @ApiProperty({
+    format: 'date-time',
+    description: 'Date when the borrowing record was last updated',
+  })
+  @DateTime()
+  @Expose()
+  updatedAt: string;
+
+  @ApiProperty({
+    type: () => BookResponseDto,
+    description: 'The borrowed book; only with include=book (or book.author to embed its author)',
+    required: false,
+  })
+  @Expose()
+  @Type(() => BookResponseDto)
+  book?: BookResponseDto;
 }
 
+export class PaginatedBorrowingsResponseDto extends PaginatedResponseDto {
+  @ApiProperty({ type: [BorrowingResponseDto], description: 'Borrowings, newest first' })
+  @Expose()
+  @Type(() => BorrowingResponseDto)
+  data: BorrowingResponseDto[];
+}
@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsNumber, Min } from 'class-validator';
+import { IsNotEmpty, IsNumber, IsOptional, Min } from 'class-validator';
 
 export class CreateBorrowingDto {
   @ApiProperty({
@@ -12,12 +12,23 @@ export class CreateBorrowingDto {
   bookId: number;
 
   @ApiProperty({
-    description: 'Name of the borrower',
-    example: 'John Doe',
+    description: 'ID of a specific copy to lend (any available copy when omitted)',
+    example: 1,
+    required: false,
   })
-  @IsString()
+  @IsNumber()
+  @Min(1)
+  @IsOptional()
+  copyId?: number;
+
+  @ApiProperty({
+    description: 'ID of the patron borrowing the book',
+    example: 1,
+  })
+  @IsNumber()
   @IsNotEmpty()
-  borrowerName: string;
+  @Min(1)
+  patronId: number;
 
   @ApiProperty({
     description: 'Number of days to borrow the book',
@@ -29,4 +40,3 @@ export class CreateBorrowingDto {
   @Min(1)
   borrowDays?: number;
 }
-
@@ -0,0 +1,49 @@
+import { ApiProperty, IntersectionType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { ExpansionQueryDto } from '../../common/dto/expansion-query.dto';
+
+export const BORROWING_INCLUDES = ['book', 'book.author'] as const;
+export const BORROWING_FIELDS = [
+  'bookId',
+  'copyId',
+  'patronId',
+  'borrowerName',
+  'borrowedDate',
+  'dueDate',
+  'returnedDate',
+  'status',
+  'renewalCount',
+  'lastRenewedAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export class BorrowingExpansionQueryDto extends ExpansionQueryDto({
+  includes: BORROWING_INCLUDES,
+  fields: BORROWING_FIELDS,
+}) {}
+
+export class QueryBorrowingsDto extends IntersectionType(
+  PaginationQueryDto,
+  BorrowingExpansionQueryDto,
+) {
+  @ApiProperty({ description: 'Filter by book ID', example: 1, required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  bookId?: number;
+
+  @ApiProperty({
+    description: 'Filter by patron ID (patrons always see only their own borrowings)',
+    example: 1,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  patronId?: number;
+}
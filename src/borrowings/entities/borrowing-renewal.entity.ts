@@ -0,0 +1,31 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { Borrowing } from './borrowing.entity';
+
+@Entity('borrowing_renewals')
+export class BorrowingRenewal {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  borrowingId: number;
+
+  @ManyToOne(() => Borrowing, (borrowing) => borrowing.renewals, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'borrowingId' })
+  borrowing: Borrowing;
+
+  @Column({ type: 'date' })
+  previousDueDate: Date;
+
+  @Column({ type: 'date' })
+  newDueDate: Date;
+
+  @CreateDateColumn()
+  renewedAt: Date;
+}
@@ -1,7 +1,26 @@
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
 import { Book } from '../../books/entities/book.entity';
+import { Patron } from '../../patrons/entities/patron.entity';
+import { BookCopy } from '../../copies/entities/book-copy.entity';
+import { BorrowingRenewal } from './borrowing-renewal.entity';
 
+// A copy can only be on one open loan at a time
+@Index('IDX_borrowings_active_copy', ['copyId'], {
+  unique: true,
+  where: `"status" IN ('BORROWED', 'OVERDUE')`,
+})
 @Entity('borrowings')
+@Index(['status', 'dueDate'])
 export class Borrowing {
   @PrimaryGeneratedColumn()
   id: number;
@@ -14,7 +33,22 @@ export class Borrowing {
   book: Book;
 
   @Column()
-  borrowerName: string;
+  copyId: number;
+
+  @ManyToOne(() => BookCopy)
+  @JoinColumn({ name: 'copyId' })
+  copy: BookCopy;
+
+  @Column()
+  patronId: number;
+
+  @ManyToOne(() => Patron, (patron) => patron.borrowings)
+  @JoinColumn({ name: 'patronId' })
+  patron: Patron;
+
+  // Legacy free-text borrower, superseded by patronId (see the AddPatrons migration)
+  @Column({ nullable: true })
+  borrowerName?: string;
 
   @Column({ type: 'date' })
   borrowedDate: Date;
@@ -32,10 +66,18 @@ export class Borrowing {
   })
   status: 'BORROWED' | 'RETURNED' | 'OVERDUE';
 
+  @Column({ default: 0 })
+  renewalCount: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastRenewedAt?: Date;
+
+  @OneToMany(() => BorrowingRenewal, (renewal) => renewal.borrowing)
+  renewals: BorrowingRenewal[];
+
   @CreateDateColumn()
   createdAt: Date;
 
   @UpdateDateColumn()
   updatedAt: Date;
 }
-
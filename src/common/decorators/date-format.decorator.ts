@@ -0,0 +1,24 @@
+import { Transform } from 'class-transformer';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Sends a `date` column as YYYY-MM-DD. Loaded rows hold that string already;
+ * a Date set in code is formatted in local time, as TypeORM stores it.
+ */
+export const DateOnly = () =>
+  Transform(
+    ({ value }) =>
+      value instanceof Date
+        ? `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+        : (value ?? null),
+    { toPlainOnly: true },
+  );
+
+/**
+ * Sends a timestamp as an ISO 8601 string in UTC, or null when unset.
+ */
+export const DateTime = () =>
+  Transform(({ value }) => (value instanceof Date ? value.toISOString() : (value ?? null)), {
+    toPlainOnly: true,
+  });
@@ -0,0 +1,14 @@
+import { SerializeOptions, Type, UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ResponseSerializerInterceptor } from '../interceptors/response-serializer.interceptor';
+
+/**
+ * Maps a route's result (an entity, an array of them or a paginated envelope)
+ * onto a response DTO. Only properties marked @Expose() on the DTO are sent,
+ * so columns and relations added to an entity stay internal until exposed.
+ * `?fields=` then narrows the result to a sparse fieldset.
+ */
+export const Serialize = (type: Type<unknown>) =>
+  applyDecorators(
+    SerializeOptions({ type, strategy: 'excludeAll' }),
+    UseInterceptors(ResponseSerializerInterceptor),
+  );
@@ -0,0 +1,63 @@
+import { Type } from '@nestjs/common';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { ArrayNotEmpty, IsIn, IsOptional } from 'class-validator';
+
+// `?include=book,book.author` style lists; repeated parameters are accepted too
+export function parseQueryList(value: unknown): unknown {
+  const values = Array.isArray(value) ? value : [value];
+  return values.every((item) => typeof item === 'string')
+    ? values
+        .flatMap((item: string) => item.split(','))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+}
+
+export interface ExpansionQuery {
+  include?: string[];
+  fields?: string[];
+}
+
+/**
+ * Builds the `include` and `fields` query parameters for a resource:
+ * `include` names the relations to embed, `fields` the top-level fields to
+ * return. `id` and included relations are always returned.
+ */
+export function ExpansionQueryDto(options: {
+  includes: readonly string[];
+  fields: readonly string[];
+}): Type<ExpansionQuery> {
+  class ExpansionQueryDto {
+    @ApiProperty({
+      description: `Comma-separated relations to embed: ${options.includes.join(', ')}`,
+      example: options.includes.join(','),
+      type: String,
+      required: false,
+    })
+    @Transform(({ value }) => parseQueryList(value))
+    @ArrayNotEmpty()
+    @IsIn(options.includes, {
+      each: true,
+      message: `include must be a comma-separated list using: ${options.includes.join(', ')}`,
+    })
+    @IsOptional()
+    include?: string[];
+
+    @ApiProperty({
+      description: `Comma-separated fields to return (id is always returned): ${options.fields.join(', ')}`,
+      example: options.fields.slice(0, 2).join(','),
+      type: String,
+      required: false,
+    })
+    @Transform(({ value }) => parseQueryList(value))
+    @ArrayNotEmpty()
+    @IsIn(options.fields, {
+      each: true,
+      message: `fields must be a comma-separated list using: ${options.fields.join(', ')}`,
+    })
+    @IsOptional()
+    fields?: string[];
+  }
+  return ExpansionQueryDto;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class IncludeDeletedDto {
+  @ApiProperty({
+    description: 'Also return soft-deleted records (staff only)',
+    default: false,
+    required: false,
+  })
+  @Transform(({ value }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean()
+  @IsOptional()
+  includeDeleted?: boolean;
+}
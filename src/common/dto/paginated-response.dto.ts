@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Expose, Type } from 'class-transformer';
+
+export class PageLinksDto {
+  @ApiProperty({
+    example: '/books?limit=20&page=2',
+    description: 'The next page, or null on the last page',
+    nullable: true,
+    type: String,
+  })
+  @Expose()
+  next: string | null;
+
+  @ApiProperty({
+    example: null,
+    description: 'The previous page, or null on the first page',
+    nullable: true,
+    type: String,
+  })
+  @Expose()
+  prev: string | null;
+}
+
+/**
+ * Envelope shared by the list endpoints; subclasses declare `data`. The
+ * totals are only computed in offset mode.
+ */
+export class PaginatedResponseDto {
+  @ApiProperty({ example: 20, description: 'Items per page' })
+  @Expose()
+  limit: number;
+
+  @ApiProperty({
+    example: 87,
+    description: 'Total number of items (offset mode only)',
+    required: false,
+  })
+  @Expose()
+  total?: number;
+
+  @ApiProperty({
+    example: 1,
+    description: 'Current page number (offset mode only)',
+    required: false,
+  })
+  @Expose()
+  page?: number;
+
+  @ApiProperty({
+    example: 5,
+    description: 'Total number of pages (offset mode only)',
+    required: false,
+  })
+  @Expose()
+  totalPages?: number;
+
+  @ApiProperty({ type: PageLinksDto })
+  @Expose()
+  @Type(() => PageLinksDto)
+  links: PageLinksDto;
+}
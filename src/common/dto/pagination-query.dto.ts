@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+/**
+ * Page/limit for offset pagination, or cursor/limit for cursor pagination.
+ * Defaults are applied by paginate() so it can tell which mode was asked for.
+ */
+export class PaginationQueryDto {
+  @ApiProperty({
+    description: 'Page number (offset mode)',
+    default: 1,
+    minimum: 1,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number;
+
+  @ApiProperty({
+    description:
+      'Opaque cursor from links.next or links.prev. Pass it empty (`?cursor=`) to start cursor mode on the first page.',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiProperty({
+    description: 'Items per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+}
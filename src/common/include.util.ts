@@ -0,0 +1,36 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+// book.author is as deep as includes go; deeper paths would fan out the joins
+export const MAX_INCLUDE_DEPTH = 2;
+
+/**
+ * Left-joins the relations named by `include` paths (e.g. "book.author")
+ * into the query, so they load with the rows in a single query. Parents of
+ * a nested path are joined even when not listed themselves.
+ */
+export function applyIncludes<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  include: string[] = [],
+): SelectQueryBuilder<T> {
+  const paths = new Set<string>();
+  for (const path of include) {
+    const segments = path.split('.');
+    if (segments.length > MAX_INCLUDE_DEPTH) {
+      throw new BadRequestException(
+        `include paths may be at most ${MAX_INCLUDE_DEPTH} relations deep: ${path}`,
+      );
+    }
+    segments.forEach((_, index) => paths.add(segments.slice(0, index + 1).join('.')));
+  }
+
+  const aliasFor = (path: string) => `${queryBuilder.alias}_${path.replace(/\./g, '_')}`;
+  [...paths]
+    .sort((a, b) => a.split('.').length - b.split('.').length)
+    .forEach((path) => {
+      const separator = path.lastIndexOf('.');
+      const parent = separator === -1 ? queryBuilder.alias : aliasFor(path.slice(0, separator));
+      queryBuilder.leftJoinAndSelect(`${parent}.${path.slice(separator + 1)}`, aliasFor(path));
+    });
+  return queryBuilder;
+}
@@ -1,10 +1,4 @@
-import {
-  Injectable,
-  NestInterceptor,
-  ExecutionContext,
-  CallHandler,
-  Inject,
-} from '@nestjs/common';
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Inject } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { Logger } from 'common-sense-logger';
@@ -23,7 +17,7 @@ export class LoggingInterceptor implements NestInterceptor {
       url,
       query,
       params,
-      body: method !== 'GET' ? body : undefined,
+      body: method !== 'GET' ? this.redact(body) : undefined,
     });
 
     return next.handle().pipe(
@@ -58,5 +52,12 @@ export class LoggingInterceptor implements NestInterceptor {
       }),
     );
   }
-}
 
+  // Keep credentials sent to /auth out of the request log
+  private redact(body: any): any {
+    if (!body || typeof body !== 'object' || !('password' in body)) {
+      return body;
+    }
+    return { ...body, password: '[REDACTED]' };
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  CallHandler,
+  ClassSerializerInterceptor,
+  ExecutionContext,
+  Injectable,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { PaginatedResponseDto } from '../dto/paginated-response.dto';
+import { parseQueryList } from '../dto/expansion-query.dto';
+
+/**
+ * Serializes like ClassSerializerInterceptor, then trims each resource to
+ * the sparse fieldset requested with `?fields=`. The query DTO has already
+ * validated the field names by the time the handler returns.
+ */
+@Injectable()
+export class ResponseSerializerInterceptor extends ClassSerializerInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const { query } = context.switchToHttp().getRequest();
+    const fields = parseQueryList(query.fields ?? []) as string[];
+    if (fields.length === 0) {
+      return super.intercept(context, next);
+    }
+
+    // id and embedded relations survive any fieldset
+    const kept = new Set([
+      'id',
+      ...fields,
+      ...(parseQueryList(query.include ?? []) as string[]).map((path) => path.split('.')[0]),
+    ]);
+    const pick = (resource: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(resource).filter(([key]) => kept.has(key)));
+
+    const paginated =
+      this.getContextOptions(context)?.type?.prototype instanceof PaginatedResponseDto;
+    return super.intercept(context, next).pipe(
+      map((response) => {
+        if (!response || typeof response !== 'object') {
+          return response;
+        }
+        return paginated ? { ...response, data: response.data.map(pick) } : pick(response);
+      }),
+    );
+  }
+}
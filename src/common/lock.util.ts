@@ -0,0 +1,22 @@
+import { EntityManager, EntityTarget, ObjectLiteral } from 'typeorm';
+
+/**
+ * Locks one row (FOR UPDATE) until the caller's transaction ends. A book's
+ * row is the lock that borrows, returns, renewals and hold changes take before
+ * moving its copies between loans, the hold shelf and open circulation.
+ * Soft-deleted rows are locked too, since their loans can still be returned.
+ */
+export async function lockRow<T extends ObjectLiteral>(
+  manager: EntityManager,
+  entity: EntityTarget<T>,
+  id: number,
+): Promise<void> {
+  await manager
+    .getRepository(entity)
+    .createQueryBuilder('row')
+    .select('row.id')
+    .where('row.id = :id', { id })
+    .withDeleted()
+    .setLock('pessimistic_write')
+    .getOne();
+}
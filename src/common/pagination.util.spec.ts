@@ -0,0 +1,27 @@
+import { BadRequestException } from '@nestjs/common';
+import { decodeCursor, encodeCursor } from './pagination.util';
+
+describe('pagination.util cursors', () => {
+  const signature = 'createdAt:DESC,id:DESC';
+
+  it('round-trips a cursor through its URL-safe encoding', () => {
+    const cursor = { d: 'next' as const, s: signature, k: ['2024-03-01T10:00:00.000Z', 42] };
+    const encoded = encodeCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded, signature, 2)).toEqual(cursor);
+  });
+
+  it('rejects values that are not cursors', () => {
+    expect(() => decodeCursor('not a cursor', signature, 2)).toThrow(BadRequestException);
+    const wrongDirection = encodeCursor({ d: 'up' as never, s: signature, k: [1, 2] });
+    expect(() => decodeCursor(wrongDirection, signature, 2)).toThrow('cursor is not valid');
+  });
+
+  it('rejects a cursor issued for another sort order', () => {
+    const encoded = encodeCursor({ d: 'prev', s: 'title:ASC,id:ASC', k: ['Dune', 7] });
+
+    expect(() => decodeCursor(encoded, signature, 2)).toThrow(/different sort order/);
+    expect(() => decodeCursor(encoded, 'title:ASC,id:ASC', 3)).toThrow(/different sort order/);
+  });
+});
@@ -0,0 +1,210 @@
+import { BadRequestException } from '@nestjs/common';
+import { Brackets, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { PaginationQueryDto } from './dto/pagination-query.dto';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+
+export interface SortKey {
+  // Entity property on the query builder's main alias
+  column: string;
+  order: 'ASC' | 'DESC';
+}
+
+export interface Paginated<T> {
+  data: T[];
+  limit: number;
+  total?: number;
+  page?: number;
+  totalPages?: number;
+  links: { next: string | null; prev: string | null };
+}
+
+export interface Cursor {
+  // Direction to read from the boundary row, and the sort it was issued for
+  d: 'next' | 'prev';
+  s: string;
+  k: unknown[];
+}
+
+/**
+ * Pages a query in one of two modes:
+ * - offset (`?page=&limit=`): counts the matches and skips to the page.
+ * - cursor (`?cursor=&limit=`): seeks past the boundary row of the previous
+ *   page, so deep pages cost the same as the first and rows inserted
+ *   meanwhile do not shift the results. No total is computed.
+ *
+ * `sort` must end on a unique column so every row has a distinct position.
+ * Cursor mode also needs non-null columns, since the seek compares values.
+ * `path` and the remaining query parameters are used to build the links.
+ */
+export async function paginate<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  query: PaginationQueryDto,
+  options: { path: string; sort: SortKey[] },
+): Promise<Paginated<T>> {
+  const limit = query.limit ?? DEFAULT_PAGE_LIMIT;
+  if (query.cursor !== undefined && query.page !== undefined) {
+    throw new BadRequestException('Use either page or cursor, not both');
+  }
+  return query.cursor !== undefined
+    ? paginateByCursor(queryBuilder, query, limit, options.path, options.sort)
+    : paginateByOffset(queryBuilder, query, limit, options.path, options.sort);
+}
+
+async function paginateByOffset<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  query: PaginationQueryDto,
+  limit: number,
+  path: string,
+  sort: SortKey[],
+): Promise<Paginated<T>> {
+  const page = query.page ?? 1;
+  applyOrder(queryBuilder, sort, false);
+  const [data, total] = await queryBuilder
+    .skip((page - 1) * limit)
+    .take(limit)
+    .getManyAndCount();
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    data,
+    total,
+    page,
+    limit,
+    totalPages,
+    links: {
+      next: page < totalPages ? buildLink(path, query, limit, { page: page + 1 }) : null,
+      // Past the end, prev leads back to the last page
+      prev:
+        page > 1
+          ? buildLink(path, query, limit, { page: Math.min(page - 1, Math.max(totalPages, 1)) })
+          : null,
+    },
+  };
+}
+
+async function paginateByCursor<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  query: PaginationQueryDto,
+  limit: number,
+  path: string,
+  sort: SortKey[],
+): Promise<Paginated<T>> {
+  const signature = sort.map(({ column, order }) => `${column}:${order}`).join(',');
+  const cursor = query.cursor ? decodeCursor(query.cursor, signature, sort.length) : null;
+  const backward = cursor?.d === 'prev';
+
+  if (cursor) {
+    applySeek(queryBuilder, sort, cursor.k, backward);
+  }
+  applyOrder(queryBuilder, sort, backward);
+  // One extra row tells whether there is anything beyond this page
+  const rows = await queryBuilder.take(limit + 1).getMany();
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit);
+  if (backward) {
+    data.reverse();
+  }
+
+  const linkTo = (d: Cursor['d'], row: T) =>
+    buildLink(path, query, limit, {
+      cursor: encodeCursor({ d, s: signature, k: sort.map(({ column }) => row[column]) }),
+    });
+  const first = data[0];
+  const last = data[data.length - 1];
+  // Coming from a page means there is one in the direction we came from
+  const hasNext = backward ? !!cursor : hasMore;
+  const hasPrev = backward ? hasMore : !!cursor;
+
+  return {
+    data,
+    limit,
+    links: {
+      next: hasNext && last ? linkTo('next', last) : null,
+      prev: hasPrev && first ? linkTo('prev', first) : null,
+    },
+  };
+}
+
+function applyOrder<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  sort: SortKey[],
+  reverse: boolean,
+): void {
+  sort.forEach(({ column, order }, index) => {
+    const direction = reverse ? (order === 'ASC' ? 'DESC' : 'ASC') : order;
+    if (index === 0) {
+      queryBuilder.orderBy(`${queryBuilder.alias}.${column}`, direction);
+    } else {
+      queryBuilder.addOrderBy(`${queryBuilder.alias}.${column}`, direction);
+    }
+  });
+}
+
+/**
+ * Keeps only rows after the cursor row in sort order (before it when reading
+ * backward): (a > :a) OR (a = :a AND b > :b) OR ..., with < for DESC keys.
+ */
+function applySeek<T extends ObjectLiteral>(
+  queryBuilder: SelectQueryBuilder<T>,
+  sort: SortKey[],
+  values: unknown[],
+  backward: boolean,
+): void {
+  const alias = queryBuilder.alias;
+  const parameters = Object.fromEntries(values.map((value, index) => [`cursor_${index}`, value]));
+  queryBuilder.andWhere(
+    new Brackets((seek) => {
+      sort.forEach(({ column, order }, index) => {
+        const operator = (order === 'ASC') !== backward ? '>' : '<';
+        const ties = sort
+          .slice(0, index)
+          .map((key, tieIndex) => `${alias}.${key.column} = :cursor_${tieIndex}`);
+        seek.orWhere([...ties, `${alias}.${column} ${operator} :cursor_${index}`].join(' AND '));
+      });
+    }),
+  );
+  queryBuilder.setParameters(parameters);
+}
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string, signature: string, keys: number): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('cursor is not valid');
+  }
+  if (!cursor || !['next', 'prev'].includes(cursor.d) || !Array.isArray(cursor.k)) {
+    throw new BadRequestException('cursor is not valid');
+  }
+  if (cursor.s !== signature || cursor.k.length !== keys) {
+    throw new BadRequestException(
+      'cursor was issued for a different sort order; start again without one',
+    );
+  }
+  return cursor;
+}
+
+// Keeps the caller's filters and limit, replacing page/cursor with the target page
+function buildLink(
+  path: string,
+  query: PaginationQueryDto,
+  limit: number,
+  target: { page?: number; cursor?: string },
+): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && !['page', 'cursor', 'limit'].includes(key)) {
+      params.set(key, String(value));
+    }
+  }
+  params.set('limit', String(limit));
+  for (const [key, value] of Object.entries(target)) {
+    params.set(key, String(value));
+  }
+  return `${path}?${params.toString()}`;
+}
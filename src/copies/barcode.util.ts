@@ -0,0 +1,6 @@
+/**
+ * Formats the default barcode for a copy, e.g. book 12, copy 3 -> B000012-003.
+ */
+export function formatBarcode(bookId: number, sequence: number): string {
+  return `B${String(bookId).padStart(6, '0')}-${String(sequence).padStart(3, '0')}`;
+}
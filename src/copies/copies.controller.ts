@@ -0,0 +1,179 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Inject,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CopiesService } from './copies.service';
+import { CreateCopyDto } from './dto/create-copy.dto';
+import { UpdateCopyDto } from './dto/update-copy.dto';
+import { CopyResponseDto } from './dto/copy-response.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('copies')
+@Controller()
+export class CopiesController {
+  constructor(
+    private readonly copiesService: CopiesService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[COPIES_CONTROLLER] CopiesController initialized');
+  }
+
+  @Post('books/:bookId/copies')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add a physical copy of a book' })
+  @ApiParam({ name: 'bookId', type: Number, description: 'Book ID' })
+  @ApiBody({ type: CreateCopyDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The copy has been successfully created.',
+    type: CopyResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid input or barcode exists.' })
+  @ApiResponse({ status: 404, description: 'Book not found.' })
+  async create(
+    @Param('bookId') bookId: string,
+    @Body() createCopyDto: CreateCopyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    this.logger.info(`[COPIES_CONTROLLER] POST /books/${bookId}/copies - Adding copy`, {
+      bookId,
+      barcode: createCopyDto.barcode,
+    });
+    try {
+      const copy = await this.copiesService.create(+bookId, createCopyDto, user);
+      this.logger.info('[COPIES_CONTROLLER] Copy creation successful', { copyId: copy.id });
+      return copy;
+    } catch (error) {
+      this.logger.error(`[COPIES_CONTROLLER] Failed to add copy to book ${bookId}`, {
+        bookId,
+        createCopyDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get('books/:bookId/copies')
+  @Public()
+  @ApiOperation({ summary: 'List the physical copies of a book' })
+  @ApiParam({ name: 'bookId', type: Number, description: 'Book ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of copies for the book',
+    type: [CopyResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Book not found.' })
+  async findByBook(@Param('bookId') bookId: string) {
+    this.logger.debug(`[COPIES_CONTROLLER] GET /books/${bookId}/copies - Fetching copies`, {
+      bookId,
+    });
+    const copies = await this.copiesService.findByBook(+bookId);
+    this.logger.debug(`[COPIES_CONTROLLER] Returning ${copies.length} copies`, {
+      count: copies.length,
+    });
+    return copies;
+  }
+
+  @Get('copies/barcode/:barcode')
+  @Public()
+  @ApiOperation({ summary: 'Get a copy by barcode' })
+  @ApiParam({ name: 'barcode', type: String, description: 'Copy barcode' })
+  @ApiResponse({ status: 200, description: 'The copy details', type: CopyResponseDto })
+  @ApiResponse({ status: 404, description: 'Copy not found.' })
+  async findByBarcode(@Param('barcode') barcode: string) {
+    this.logger.debug(`[COPIES_CONTROLLER] GET /copies/barcode/${barcode} - Fetching copy`, {
+      barcode,
+    });
+    return this.copiesService.findByBarcode(barcode);
+  }
+
+  @Get('copies/:id')
+  @Public()
+  @ApiOperation({ summary: 'Get a copy by ID' })
+  @ApiParam({ name: 'id', type: Number, description: 'Copy ID' })
+  @ApiResponse({ status: 200, description: 'The copy details', type: CopyResponseDto })
+  @ApiResponse({ status: 404, description: 'Copy not found.' })
+  async findOne(@Param('id') id: string) {
+    this.logger.debug(`[COPIES_CONTROLLER] GET /copies/${id} - Fetching copy`, { copyId: id });
+    return this.copiesService.findOne(+id);
+  }
+
+  @Patch('copies/:id')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a copy (barcode, acquisition date or status)' })
+  @ApiParam({ name: 'id', type: Number, description: 'Copy ID' })
+  @ApiBody({ type: UpdateCopyDto })
+  @ApiResponse({
+    status: 200,
+    description: 'The copy has been successfully updated.',
+    type: CopyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Copy not found.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateCopyDto: UpdateCopyDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    this.logger.info(`[COPIES_CONTROLLER] PATCH /copies/${id} - Updating copy`, {
+      copyId: id,
+      updates: Object.keys(updateCopyDto),
+    });
+    try {
+      return await this.copiesService.update(+id, updateCopyDto, user);
+    } catch (error) {
+      this.logger.error(`[COPIES_CONTROLLER] Failed to update copy ${id}`, {
+        copyId: id,
+        updateCopyDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Delete('copies/:id')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a copy without borrowing history' })
+  @ApiParam({ name: 'id', type: Number, description: 'Copy ID' })
+  @ApiResponse({ status: 204, description: 'The copy has been successfully deleted.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Copy has borrowings on record.' })
+  @ApiResponse({ status: 404, description: 'Copy not found.' })
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[COPIES_CONTROLLER] DELETE /copies/${id} - Deleting copy`, { copyId: id });
+    try {
+      await this.copiesService.remove(+id, user);
+      this.logger.info('[COPIES_CONTROLLER] Copy deletion successful', { copyId: id });
+    } catch (error) {
+      this.logger.error(`[COPIES_CONTROLLER] Failed to delete copy ${id}`, {
+        copyId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
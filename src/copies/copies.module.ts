@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CopiesService } from './copies.service';
+import { CopiesController } from './copies.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
+import { BookCopy } from './entities/book-copy.entity';
+import { Book } from '../books/entities/book.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([BookCopy, Book, Borrowing]),
+    EventsModule,
+    AuditModule,
+    LoggerModule,
+  ],
+  controllers: [CopiesController],
+  providers: [CopiesService],
+  exports: [CopiesService],
+})
+export class CopiesModule {}
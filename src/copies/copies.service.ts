@@ -0,0 +1,276 @@
+import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { BookCopy, CopyStatus } from './entities/book-copy.entity';
+import { Book } from '../books/entities/book.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { CreateCopyDto } from './dto/create-copy.dto';
+import { UpdateCopyDto } from './dto/update-copy.dto';
+import { formatBarcode } from './barcode.util';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class CopiesService {
+  constructor(
+    @InjectRepository(BookCopy)
+    private readonly copyRepository: Repository<BookCopy>,
+    @InjectRepository(Book)
+    private readonly bookRepository: Repository<Book>,
+    @InjectRepository(Borrowing)
+    private readonly borrowingRepository: Repository<Borrowing>,
+    private readonly eventsService: EventsService,
+    private readonly auditService: AuditService,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[COPIES_SERVICE] CopiesService initialized');
+  }
+
+  async create(
+    bookId: number,
+    createCopyDto: CreateCopyDto,
+    actor?: AuthUser,
+    manager?: EntityManager,
+  ): Promise<BookCopy> {
+    this.logger.debug(`[COPIES_SERVICE] Adding copy to book: ${bookId}`, {
+      bookId,
+      barcode: createCopyDto.barcode,
+    });
+
+    await this.assertBookExists(bookId, manager);
+
+    if (createCopyDto.barcode) {
+      const existingCopy = await this.repositoryFor(manager).findOne({
+        where: { barcode: createCopyDto.barcode },
+      });
+      if (existingCopy) {
+        this.logger.warn('[COPIES_SERVICE] Attempted to create copy with duplicate barcode', {
+          barcode: createCopyDto.barcode,
+          existingCopyId: existingCopy.id,
+        });
+        throw new BadRequestException('A copy with this barcode already exists');
+      }
+    }
+
+    const copy = this.copyRepository.create({
+      bookId,
+      barcode: createCopyDto.barcode ?? (await this.nextBarcode(bookId, manager)),
+      status: createCopyDto.status ?? 'AVAILABLE',
+      acquisitionDate: createCopyDto.acquisitionDate
+        ? new Date(createCopyDto.acquisitionDate)
+        : new Date(),
+    });
+
+    const savedCopy = await this.inTransaction(manager, async (manager) => {
+      const savedCopy = await manager.save(copy);
+      await this.eventsService.publish(
+        'COPY_ADDED',
+        { copyId: savedCopy.id, bookId, barcode: savedCopy.barcode },
+        manager,
+      );
+      await this.auditService.record(
+        { actor, entityType: 'COPY', entityId: savedCopy.id, action: 'CREATE', after: savedCopy },
+        manager,
+      );
+      return savedCopy;
+    });
+    this.logger.info('[COPIES_SERVICE] Copy created successfully', {
+      copyId: savedCopy.id,
+      bookId,
+      barcode: savedCopy.barcode,
+    });
+
+    return savedCopy;
+  }
+
+  async addCopies(
+    bookId: number,
+    count: number,
+    actor?: AuthUser,
+    manager?: EntityManager,
+  ): Promise<BookCopy[]> {
+    const copies: BookCopy[] = [];
+    for (let i = 0; i < count; i++) {
+      copies.push(await this.create(bookId, {}, actor, manager));
+    }
+    return copies;
+  }
+
+  async findByBook(bookId: number): Promise<BookCopy[]> {
+    this.logger.debug(`[COPIES_SERVICE] Fetching copies for book: ${bookId}`, { bookId });
+    await this.assertBookExists(bookId);
+    return this.copyRepository.find({ where: { bookId }, order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number, manager?: EntityManager): Promise<BookCopy> {
+    this.logger.debug(`[COPIES_SERVICE] Fetching copy with ID: ${id}`, { copyId: id });
+    const copy = await this.repositoryFor(manager).findOne({ where: { id } });
+    if (!copy) {
+      this.logger.warn(`[COPIES_SERVICE] Copy not found: ${id}`, { copyId: id });
+      throw new NotFoundException(`Copy with ID ${id} not found`);
+    }
+    return copy;
+  }
+
+  async findByBarcode(barcode: string): Promise<BookCopy> {
+    this.logger.debug(`[COPIES_SERVICE] Fetching copy by barcode: ${barcode}`, { barcode });
+    const copy = await this.copyRepository.findOne({ where: { barcode } });
+    if (!copy) {
+      this.logger.warn(`[COPIES_SERVICE] Copy not found for barcode: ${barcode}`, { barcode });
+      throw new NotFoundException(`Copy with barcode ${barcode} not found`);
+    }
+    return copy;
+  }
+
+  /**
+   * Picks the copy to lend for a book: the requested copy when given,
+   * otherwise the longest-held available one. Returns null when none is free.
+   */
+  async findAvailableCopy(
+    bookId: number,
+    copyId?: number,
+    manager?: EntityManager,
+  ): Promise<BookCopy | null> {
+    if (copyId) {
+      const copy = await this.findOne(copyId, manager);
+      if (copy.bookId !== bookId) {
+        throw new BadRequestException(`Copy ${copyId} does not belong to book ${bookId}`);
+      }
+      return copy.status === 'AVAILABLE' ? copy : null;
+    }
+    return this.repositoryFor(manager).findOne({
+      where: { bookId, status: 'AVAILABLE' },
+      order: { acquisitionDate: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async setStatus(id: number, status: CopyStatus, manager?: EntityManager): Promise<BookCopy> {
+    const copy = await this.findOne(id, manager);
+    const previousStatus = copy.status;
+    copy.status = status;
+    const updatedCopy = await this.repositoryFor(manager).save(copy);
+    this.logger.debug('[COPIES_SERVICE] Copy status changed', {
+      copyId: id,
+      bookId: copy.bookId,
+      from: previousStatus,
+      to: status,
+    });
+    return updatedCopy;
+  }
+
+  async update(id: number, updateCopyDto: UpdateCopyDto, actor?: AuthUser): Promise<BookCopy> {
+    this.logger.debug(`[COPIES_SERVICE] Updating copy with ID: ${id}`, {
+      copyId: id,
+      updates: updateCopyDto,
+    });
+
+    const copy = await this.findOne(id);
+    const oldCopy = { ...copy };
+
+    if (updateCopyDto.barcode && updateCopyDto.barcode !== copy.barcode) {
+      const existingCopy = await this.copyRepository.findOne({
+        where: { barcode: updateCopyDto.barcode },
+      });
+      if (existingCopy) {
+        throw new BadRequestException('A copy with this barcode already exists');
+      }
+    }
+
+    Object.assign(copy, {
+      ...updateCopyDto,
+      acquisitionDate: updateCopyDto.acquisitionDate
+        ? new Date(updateCopyDto.acquisitionDate)
+        : copy.acquisitionDate,
+    });
+    const updatedCopy = await this.dataSource.transaction(async (manager) => {
+      const updatedCopy = await manager.save(copy);
+      await this.eventsService.publish(
+        'COPY_UPDATED',
+        { copyId: id, bookId: copy.bookId, changes: updateCopyDto },
+        manager,
+      );
+      await this.auditService.record(
+        { actor, entityType: 'COPY', entityId: id, action: 'UPDATE', before: oldCopy, after: copy },
+        manager,
+      );
+      return updatedCopy;
+    });
+
+    this.logger.info('[COPIES_SERVICE] Copy updated successfully', {
+      copyId: id,
+      changes: Object.keys(updateCopyDto),
+    });
+
+    return updatedCopy;
+  }
+
+  async remove(id: number, actor?: AuthUser): Promise<void> {
+    this.logger.debug(`[COPIES_SERVICE] Deleting copy with ID: ${id}`, { copyId: id });
+    const copy = await this.findOne(id);
+
+    const borrowingCount = await this.borrowingRepository.count({ where: { copyId: id } });
+    if (borrowingCount > 0) {
+      this.logger.warn(`[COPIES_SERVICE] Cannot delete copy with borrowings: ${id}`, {
+        copyId: id,
+        borrowingCount,
+      });
+      throw new BadRequestException(
+        `Cannot delete copy with ID ${id}. It has ${borrowingCount} borrowing(s) on record. Mark it as LOST or DAMAGED instead.`,
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.auditService.record(
+        { actor, entityType: 'COPY', entityId: id, action: 'DELETE', before: copy },
+        manager,
+      );
+      await manager.remove(copy);
+      await this.eventsService.publish(
+        'COPY_REMOVED',
+        { copyId: id, bookId: copy.bookId, barcode: copy.barcode },
+        manager,
+      );
+    });
+    this.logger.info('[COPIES_SERVICE] Copy deleted successfully', {
+      copyId: id,
+      bookId: copy.bookId,
+    });
+  }
+
+  // Lets callers run copy changes inside their own transaction
+  private repositoryFor(manager?: EntityManager): Repository<BookCopy> {
+    return manager ? manager.getRepository(BookCopy) : this.copyRepository;
+  }
+
+  // Joins the caller's transaction when given one, otherwise starts its own
+  private inTransaction<T>(
+    manager: EntityManager | undefined,
+    work: (manager: EntityManager) => Promise<T>,
+  ): Promise<T> {
+    return manager ? work(manager) : this.dataSource.transaction(work);
+  }
+
+  private async assertBookExists(bookId: number, manager?: EntityManager): Promise<void> {
+    const bookRepository = manager ? manager.getRepository(Book) : this.bookRepository;
+    const exists = await bookRepository.exists({ where: { id: bookId } });
+    if (!exists) {
+      this.logger.warn(`[COPIES_SERVICE] Book not found: ${bookId}`, { bookId });
+      throw new NotFoundException(`Book with ID ${bookId} not found`);
+    }
+  }
+
+  private async nextBarcode(bookId: number, manager?: EntityManager): Promise<string> {
+    const copyRepository = this.repositoryFor(manager);
+    let sequence = (await copyRepository.count({ where: { bookId } })) + 1;
+    let barcode = formatBarcode(bookId, sequence);
+    while (await copyRepository.exists({ where: { barcode } })) {
+      sequence++;
+      barcode = formatBarcode(bookId, sequence);
+    }
+    return barcode;
+  }
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { COPY_STATUSES, CopyStatus } from '../entities/book-copy.entity';
+
+export class CopyResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the copy' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the book (title) this copy belongs to' })
+  bookId: number;
+
+  @ApiProperty({ example: 'B000001-001', description: 'Barcode of the physical item' })
+  barcode: string;
+
+  @ApiProperty({
+    example: 'AVAILABLE',
+    enum: COPY_STATUSES,
+    description: 'Circulation status of the copy',
+  })
+  status: CopyStatus;
+
+  @ApiProperty({ example: '2024-01-15', description: 'Date the copy was acquired' })
+  acquisitionDate: Date;
+
+  @ApiProperty({ description: 'Date when the copy was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Date when the copy was last updated' })
+  updatedAt: Date;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsDateString, IsIn } from 'class-validator';
+import { COPY_STATUSES, CopyStatus } from '../entities/book-copy.entity';
+
+export class CreateCopyDto {
+  @ApiProperty({
+    description: 'Barcode printed on the physical item (generated when omitted)',
+    example: 'B000001-001',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  barcode?: string;
+
+  @ApiProperty({
+    description: 'Date the copy was acquired (defaults to today)',
+    example: '2024-01-15',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  acquisitionDate?: string;
+
+  @ApiProperty({
+    description: 'Circulation status of the copy',
+    enum: COPY_STATUSES,
+    default: 'AVAILABLE',
+    required: false,
+  })
+  @IsIn(COPY_STATUSES)
+  @IsOptional()
+  status?: CopyStatus;
+}
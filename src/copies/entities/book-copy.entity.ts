@@ -0,0 +1,45 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Book } from '../../books/entities/book.entity';
+
+export const COPY_STATUSES = ['AVAILABLE', 'BORROWED', 'ON_HOLD', 'LOST', 'DAMAGED'] as const;
+export type CopyStatus = (typeof COPY_STATUSES)[number];
+
+@Entity('book_copies')
+export class BookCopy {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  bookId: number;
+
+  @ManyToOne(() => Book, (book) => book.copies, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: Book;
+
+  @Column({ unique: true })
+  barcode: string;
+
+  @Column({
+    type: 'enum',
+    enum: COPY_STATUSES,
+    default: 'AVAILABLE',
+  })
+  status: CopyStatus;
+
+  @Column({ type: 'date' })
+  acquisitionDate: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,128 @@
+import { EntityManager, In } from 'typeorm';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import dataSource from './data-source';
+
+/**
+ * Compares the old per-row overdue marking with the set-based UPDATE used by
+ * the overdue-sweep job. Everything runs inside a transaction that is rolled
+ * back, so it can be pointed at a development database without changing it.
+ *
+ *   BENCH_LOANS=200000 npm run benchmark:overdue
+ */
+const LOAN_COUNT = parseInt(process.env.BENCH_LOANS || '200000', 10);
+
+async function seedLoans(manager: EntityManager): Promise<{ active: number; pastDue: number }> {
+  const [{ id: authorId }] = await manager.query(
+    `INSERT INTO "authors" ("firstName", "lastName") VALUES ('Bench', 'Mark') RETURNING "id"`,
+  );
+  const [{ id: bookId }] = await manager.query(
+    `INSERT INTO "books" ("title", "isbn", "authorId", "publishedYear")
+     VALUES ('Benchmark', 'BENCH-' || gen_random_uuid(), $1, 2000) RETURNING "id"`,
+    [authorId],
+  );
+  const [{ id: patronId }] = await manager.query(
+    `INSERT INTO "patrons" ("cardNumber", "name") VALUES ('BENCH-' || gen_random_uuid(), 'Bench Mark')
+     RETURNING "id"`,
+  );
+
+  // One copy per loan, since a copy can only be on one open loan at a time
+  await manager.query(
+    `INSERT INTO "book_copies" ("bookId", "barcode", "acquisitionDate")
+     SELECT $1, 'BENCH-' || gen_random_uuid(), CURRENT_DATE FROM generate_series(1, $2::int)`,
+    [bookId, LOAN_COUNT],
+  );
+
+  // Years of circulation: 80% returned, 15% out and not yet due, 5% out and past due
+  await manager.query(
+    `
+    INSERT INTO "borrowings" ("bookId", "copyId", "patronId", "borrowedDate", "dueDate", "returnedDate", "status")
+    SELECT $1, c."id", $2, d - 14, d, CASE WHEN i % 20 < 16 THEN d END,
+      (CASE WHEN i % 20 < 16 THEN 'RETURNED' ELSE 'BORROWED' END)::"borrowings_status_enum"
+    FROM (SELECT "id", (row_number() OVER (ORDER BY "id"))::int AS i FROM "book_copies" WHERE "bookId" = $1) c,
+      LATERAL (
+        SELECT CASE
+          WHEN i % 20 < 16 THEN CURRENT_DATE - 30 - (i % 3000)
+          WHEN i % 20 < 19 THEN CURRENT_DATE + 1 + (i % 14)
+          ELSE CURRENT_DATE - 1 - (i % 30)
+        END AS d
+      ) due
+    `,
+    [bookId, patronId],
+  );
+  await manager.query('ANALYZE "borrowings"');
+
+  const [counts] = await manager.query(`
+    SELECT COUNT(*) FILTER (WHERE "status" = 'BORROWED')::int AS "active",
+      COUNT(*) FILTER (WHERE "status" = 'BORROWED' AND "dueDate" < CURRENT_DATE)::int AS "pastDue"
+    FROM "borrowings"
+  `);
+  return counts;
+}
+
+// The sweep before it became set-based: load every active loan, save the late ones one by one
+async function markOverduePerRow(manager: EntityManager): Promise<number> {
+  const repository = manager.getRepository(Borrowing);
+  const now = new Date();
+  const loans = await repository.find({ where: { status: In(['BORROWED', 'OVERDUE']) } });
+  let marked = 0;
+  for (const loan of loans) {
+    const dueDate = loan.dueDate instanceof Date ? loan.dueDate : new Date(loan.dueDate);
+    if (loan.status === 'BORROWED' && now > dueDate) {
+      loan.status = 'OVERDUE';
+      await repository.save(loan);
+      marked++;
+    }
+  }
+  return marked;
+}
+
+// Same statement as BorrowingsService.checkOverdueBooks
+async function markOverdueSetBased(manager: EntityManager): Promise<number> {
+  const { raw } = await manager
+    .createQueryBuilder()
+    .update(Borrowing)
+    .set({ status: 'OVERDUE' })
+    .where('status = :status', { status: 'BORROWED' })
+    .andWhere('"dueDate" < :today', { today: new Date().toISOString().slice(0, 10) })
+    .returning(['id', 'bookId', 'patronId', 'dueDate'])
+    .execute();
+  return raw.length;
+}
+
+async function time(
+  manager: EntityManager,
+  label: string,
+  strategy: (manager: EntityManager) => Promise<number>,
+): Promise<void> {
+  await manager.query('SAVEPOINT benchmark');
+  const started = process.hrtime.bigint();
+  const marked = await strategy(manager);
+  const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+  await manager.query('ROLLBACK TO SAVEPOINT benchmark');
+  console.log(`${label.padEnd(28)} ${elapsedMs.toFixed(0).padStart(8)} ms  (${marked} marked)`);
+}
+
+async function benchmark() {
+  await dataSource.initialize();
+  const queryRunner = dataSource.createQueryRunner();
+  await queryRunner.connect();
+  await queryRunner.startTransaction();
+
+  try {
+    console.log(`Seeding ${LOAN_COUNT} loans...`);
+    const { active, pastDue } = await seedLoans(queryRunner.manager);
+    console.log(`${active} active loans, ${pastDue} past due\n`);
+
+    await time(queryRunner.manager, 'per-row find + save', markOverduePerRow);
+    await time(queryRunner.manager, 'UPDATE ... RETURNING', markOverdueSetBased);
+  } finally {
+    await queryRunner.rollbackTransaction();
+    await queryRunner.release();
+    await dataSource.destroy();
+  }
+}
+
+benchmark().catch((error) => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
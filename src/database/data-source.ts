@@ -0,0 +1,49 @@
+import { DataSource, DataSourceOptions } from 'typeorm';
+import { Book } from '../books/entities/book.entity';
+import { Author } from '../authors/entities/author.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { BorrowingRenewal } from '../borrowings/entities/borrowing-renewal.entity';
+import { Patron } from '../patrons/entities/patron.entity';
+import { BookCopy } from '../copies/entities/book-copy.entity';
+import { Hold } from '../holds/entities/hold.entity';
+import { FineLedgerEntry } from '../fines/entities/fine-ledger-entry.entity';
+import { User } from '../auth/entities/user.entity';
+import { JobRun } from '../jobs/entities/job-run.entity';
+import { OutboxEvent } from '../events/entities/outbox-event.entity';
+import { WebhookSubscription } from '../webhooks/entities/webhook-subscription.entity';
+import { WebhookDelivery } from '../webhooks/entities/webhook-delivery.entity';
+import { AuditLogEntry } from '../audit/entities/audit-log-entry.entity';
+
+/**
+ * Connection settings shared by the app, the seed script and the TypeORM CLI.
+ * The schema is owned by the migrations in ./migrations, never by synchronize.
+ */
+export const dataSourceOptions: DataSourceOptions = {
+  type: 'postgres',
+  host: process.env.DATABASE_HOST || 'localhost',
+  port: parseInt(process.env.DATABASE_PORT || '5432'),
+  username: process.env.DATABASE_USER || 'library_user',
+  password: process.env.DATABASE_PASSWORD || 'library_password',
+  database: process.env.DATABASE_NAME || 'library_db',
+  entities: [
+    Book,
+    Author,
+    Borrowing,
+    BorrowingRenewal,
+    Patron,
+    BookCopy,
+    Hold,
+    FineLedgerEntry,
+    User,
+    JobRun,
+    OutboxEvent,
+    WebhookSubscription,
+    WebhookDelivery,
+    AuditLogEntry,
+  ],
+  migrations: [__dirname + '/migrations/*{.ts,.js}'],
+  synchronize: false,
+};
+
+// Used by the TypeORM CLI (npm run migration:*)
+export default new DataSource(dataSourceOptions);
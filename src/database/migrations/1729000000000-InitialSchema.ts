@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1729000000000 implements MigrationInterface {
+  name = 'InitialSchema1729000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Databases created by the old synchronize setup already have exactly these tables;
+    // adopt them as they are, so the later migrations can upgrade them in place
+    if (await queryRunner.hasTable('books')) {
+      return;
+    }
+
+    await queryRunner.query(
+      `CREATE TABLE "authors" ("id" SERIAL NOT NULL, "firstName" character varying NOT NULL, "lastName" character varying NOT NULL, "dateOfBirth" date, "nationality" character varying, "biography" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_d2ed02fabd9b52847ccb85e6b88" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "books" ("id" SERIAL NOT NULL, "title" character varying NOT NULL, "isbn" character varying NOT NULL, "authorId" integer NOT NULL, "publishedYear" integer NOT NULL, "genre" character varying, "available" boolean NOT NULL DEFAULT true, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_54337dc30d9bb2c3fadebc69094" UNIQUE ("isbn"), CONSTRAINT "PK_f3f2f25a099d24e12545b70b022" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."borrowings_status_enum" AS ENUM('BORROWED', 'RETURNED', 'OVERDUE')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "borrowings" ("id" SERIAL NOT NULL, "bookId" integer NOT NULL, "borrowerName" character varying NOT NULL, "borrowedDate" date NOT NULL, "dueDate" date NOT NULL, "returnedDate" date, "status" "public"."borrowings_status_enum" NOT NULL DEFAULT 'BORROWED', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_5da0d5a9a91e8c386e1f6812db2" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "books" ADD CONSTRAINT "FK_54f49efe2dd4d2850e736e9ab86" FOREIGN KEY ("authorId") REFERENCES "authors"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" ADD CONSTRAINT "FK_5da2b7ee3b60c381d4bbdb50668" FOREIGN KEY ("bookId") REFERENCES "books"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" DROP CONSTRAINT "FK_5da2b7ee3b60c381d4bbdb50668"`,
+    );
+    await queryRunner.query(`ALTER TABLE "books" DROP CONSTRAINT "FK_54f49efe2dd4d2850e736e9ab86"`);
+    await queryRunner.query(`DROP TABLE "borrowings"`);
+    await queryRunner.query(`DROP TYPE "public"."borrowings_status_enum"`);
+    await queryRunner.query(`DROP TABLE "books"`);
+    await queryRunner.query(`DROP TABLE "authors"`);
+  }
+}
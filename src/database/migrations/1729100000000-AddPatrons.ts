@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPatrons1729100000000 implements MigrationInterface {
+  name = 'AddPatrons1729100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."patrons_status_enum" AS ENUM('ACTIVE', 'SUSPENDED', 'EXPIRED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "patrons" ("id" SERIAL NOT NULL, "cardNumber" character varying NOT NULL, "name" character varying NOT NULL, "email" character varying, "status" "public"."patrons_status_enum" NOT NULL DEFAULT 'ACTIVE', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_229a67e6fbb41e6bd6546c03a07" UNIQUE ("cardNumber"), CONSTRAINT "UQ_7a55c9759f10419362e4a4fa66f" UNIQUE ("email"), CONSTRAINT "PK_1adfd7a9fbee37c2558f07e2ed9" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "borrowings" ADD "patronId" integer`);
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "borrowerName" DROP NOT NULL`);
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" ADD CONSTRAINT "FK_de8c124d794168d0d69d7749c6a" FOREIGN KEY ("patronId") REFERENCES "patrons"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    // Legacy loans only stored a free-text borrowerName: one patron per distinct name
+    await queryRunner.query(
+      `INSERT INTO "patrons" ("cardNumber", "name") SELECT 'LIB-' || lpad((row_number() OVER (ORDER BY names."borrowerName"))::text, 10, '0'), names."borrowerName" FROM (SELECT DISTINCT "borrowerName" FROM "borrowings" WHERE "borrowerName" IS NOT NULL) names`,
+    );
+    await queryRunner.query(
+      `UPDATE "borrowings" b SET "patronId" = p."id" FROM "patrons" p WHERE p."name" = b."borrowerName" AND b."patronId" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" DROP CONSTRAINT "FK_de8c124d794168d0d69d7749c6a"`,
+    );
+    await queryRunner.query(
+      `UPDATE "borrowings" b SET "borrowerName" = p."name" FROM "patrons" p WHERE p."id" = b."patronId" AND b."borrowerName" IS NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "borrowerName" SET NOT NULL`);
+    await queryRunner.query(`ALTER TABLE "borrowings" DROP COLUMN "patronId"`);
+    await queryRunner.query(`DROP TABLE "patrons"`);
+    await queryRunner.query(`DROP TYPE "public"."patrons_status_enum"`);
+  }
+}
@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBookCopies1729200000000 implements MigrationInterface {
+  name = 'AddBookCopies1729200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."book_copies_status_enum" AS ENUM('AVAILABLE', 'BORROWED', 'LOST', 'DAMAGED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "book_copies" ("id" SERIAL NOT NULL, "bookId" integer NOT NULL, "barcode" character varying NOT NULL, "status" "public"."book_copies_status_enum" NOT NULL DEFAULT 'AVAILABLE', "acquisitionDate" date NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_1898a8d374e5b83af172664568e" UNIQUE ("barcode"), CONSTRAINT "PK_f79606d3fd05df7dcce9542d438" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "books" DROP COLUMN "available"`);
+    await queryRunner.query(`ALTER TABLE "borrowings" ADD "copyId" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" ADD CONSTRAINT "FK_447efeb15b6c881052abd7605ec" FOREIGN KEY ("bookId") REFERENCES "books"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" ADD CONSTRAINT "FK_af25eab4804ddf543bfbd96ca13" FOREIGN KEY ("copyId") REFERENCES "book_copies"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    // Every existing book gets one copy, checked out if the book is on an active loan
+    await queryRunner.query(
+      `INSERT INTO "book_copies" ("bookId", "barcode", "status", "acquisitionDate") SELECT b."id", 'B' || lpad(b."id"::text, 6, '0') || '-001', CASE WHEN EXISTS (SELECT 1 FROM "borrowings" l WHERE l."bookId" = b."id" AND l."status" IN ('BORROWED', 'OVERDUE')) THEN 'BORROWED'::"public"."book_copies_status_enum" ELSE 'AVAILABLE'::"public"."book_copies_status_enum" END, b."createdAt"::date FROM "books" b`,
+    );
+    await queryRunner.query(
+      `UPDATE "borrowings" l SET "copyId" = c."id" FROM "book_copies" c WHERE c."bookId" = l."bookId" AND l."copyId" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" DROP CONSTRAINT "FK_af25eab4804ddf543bfbd96ca13"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" DROP CONSTRAINT "FK_447efeb15b6c881052abd7605ec"`,
+    );
+    await queryRunner.query(`ALTER TABLE "borrowings" DROP COLUMN "copyId"`);
+    await queryRunner.query(`ALTER TABLE "books" ADD "available" boolean NOT NULL DEFAULT true`);
+    await queryRunner.query(
+      `UPDATE "books" b SET "available" = EXISTS (SELECT 1 FROM "book_copies" c WHERE c."bookId" = b."id" AND c."status" = 'AVAILABLE')`,
+    );
+    await queryRunner.query(`DROP TABLE "book_copies"`);
+    await queryRunner.query(`DROP TYPE "public"."book_copies_status_enum"`);
+  }
+}
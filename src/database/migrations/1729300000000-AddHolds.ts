@@ -0,0 +1,67 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddHolds1729300000000 implements MigrationInterface {
+  name = 'AddHolds1729300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."holds_status_enum" AS ENUM('WAITING', 'READY', 'FULFILLED', 'CANCELLED', 'EXPIRED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "holds" ("id" SERIAL NOT NULL, "bookId" integer NOT NULL, "patronId" integer NOT NULL, "copyId" integer, "status" "public"."holds_status_enum" NOT NULL DEFAULT 'WAITING', "readyAt" TIMESTAMP, "expiresAt" TIMESTAMP NOT NULL, "closedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_a8a21700a256e0267fb43f4f7ae" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ff85f5bcfbfba05af8bb979f90" ON "holds" ("bookId", "status", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."book_copies_status_enum" RENAME TO "book_copies_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."book_copies_status_enum" AS ENUM('AVAILABLE', 'BORROWED', 'ON_HOLD', 'LOST', 'DAMAGED')`,
+    );
+    await queryRunner.query(`ALTER TABLE "book_copies" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" ALTER COLUMN "status" TYPE "public"."book_copies_status_enum" USING "status"::"text"::"public"."book_copies_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" ALTER COLUMN "status" SET DEFAULT 'AVAILABLE'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."book_copies_status_enum_old"`);
+    await queryRunner.query(
+      `ALTER TABLE "holds" ADD CONSTRAINT "FK_e8ad9bfb22a285d53b10e642e0a" FOREIGN KEY ("bookId") REFERENCES "books"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "holds" ADD CONSTRAINT "FK_d721618f9e546490f5d2a301d80" FOREIGN KEY ("patronId") REFERENCES "patrons"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "holds" ADD CONSTRAINT "FK_5e997b23e7f7db3b2a84ac239c7" FOREIGN KEY ("copyId") REFERENCES "book_copies"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "holds" DROP CONSTRAINT "FK_5e997b23e7f7db3b2a84ac239c7"`);
+    await queryRunner.query(`ALTER TABLE "holds" DROP CONSTRAINT "FK_d721618f9e546490f5d2a301d80"`);
+    await queryRunner.query(`ALTER TABLE "holds" DROP CONSTRAINT "FK_e8ad9bfb22a285d53b10e642e0a"`);
+    // Copies waiting on the hold shelf go back into circulation
+    await queryRunner.query(
+      `UPDATE "book_copies" SET "status" = 'AVAILABLE' WHERE "status" = 'ON_HOLD'`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."book_copies_status_enum_old" AS ENUM('AVAILABLE', 'BORROWED', 'LOST', 'DAMAGED')`,
+    );
+    await queryRunner.query(`ALTER TABLE "book_copies" ALTER COLUMN "status" DROP DEFAULT`);
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" ALTER COLUMN "status" TYPE "public"."book_copies_status_enum_old" USING "status"::"text"::"public"."book_copies_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "book_copies" ALTER COLUMN "status" SET DEFAULT 'AVAILABLE'`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."book_copies_status_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."book_copies_status_enum_old" RENAME TO "book_copies_status_enum"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_ff85f5bcfbfba05af8bb979f90"`);
+    await queryRunner.query(`DROP TABLE "holds"`);
+    await queryRunner.query(`DROP TYPE "public"."holds_status_enum"`);
+  }
+}
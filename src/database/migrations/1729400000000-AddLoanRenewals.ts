@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLoanRenewals1729400000000 implements MigrationInterface {
+  name = 'AddLoanRenewals1729400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "borrowing_renewals" ("id" SERIAL NOT NULL, "borrowingId" integer NOT NULL, "previousDueDate" date NOT NULL, "newDueDate" date NOT NULL, "renewedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_7c9887c2dc1a32177afbfe5399c" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "borrowings" ADD "renewalCount" integer NOT NULL DEFAULT '0'`,
+    );
+    await queryRunner.query(`ALTER TABLE "borrowings" ADD "lastRenewedAt" TIMESTAMP`);
+    await queryRunner.query(
+      `ALTER TABLE "borrowing_renewals" ADD CONSTRAINT "FK_f68b3f3aa7ac3e02c270cb7309e" FOREIGN KEY ("borrowingId") REFERENCES "borrowings"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "borrowing_renewals" DROP CONSTRAINT "FK_f68b3f3aa7ac3e02c270cb7309e"`,
+    );
+    await queryRunner.query(`ALTER TABLE "borrowings" DROP COLUMN "lastRenewedAt"`);
+    await queryRunner.query(`ALTER TABLE "borrowings" DROP COLUMN "renewalCount"`);
+    await queryRunner.query(`DROP TABLE "borrowing_renewals"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddFineLedger1729500000000 implements MigrationInterface {
+  name = 'AddFineLedger1729500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."fine_ledger_entries_type_enum" AS ENUM('CHARGE', 'PAYMENT', 'WAIVER')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "fine_ledger_entries" ("id" SERIAL NOT NULL, "patronId" integer NOT NULL, "borrowingId" integer, "type" "public"."fine_ledger_entries_type_enum" NOT NULL, "amountCents" integer NOT NULL, "note" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_5b798265370447509c90370e565" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_dc28280f330e14084818b9f197" ON "fine_ledger_entries" ("borrowingId") `,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_e28533c7a18987493f3a1562ab" ON "fine_ledger_entries" ("patronId", "createdAt") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "fine_ledger_entries" ADD CONSTRAINT "FK_c98e974e40c8bbbf22213f98889" FOREIGN KEY ("patronId") REFERENCES "patrons"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "fine_ledger_entries" ADD CONSTRAINT "FK_dc28280f330e14084818b9f1978" FOREIGN KEY ("borrowingId") REFERENCES "borrowings"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "fine_ledger_entries" DROP CONSTRAINT "FK_dc28280f330e14084818b9f1978"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "fine_ledger_entries" DROP CONSTRAINT "FK_c98e974e40c8bbbf22213f98889"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_e28533c7a18987493f3a1562ab"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_dc28280f330e14084818b9f197"`);
+    await queryRunner.query(`DROP TABLE "fine_ledger_entries"`);
+    await queryRunner.query(`DROP TYPE "public"."fine_ledger_entries_type_enum"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCatalogSearch1729700000000 implements MigrationInterface {
+  name = 'AddCatalogSearch1729700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "books" ADD "searchVector" tsvector`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_books_search_vector" ON "books" USING GIN ("searchVector")`,
+    );
+    // Index the existing catalog; the services keep it current from here on.
+    await queryRunner.query(
+      `UPDATE "books" b SET "searchVector" = setweight(to_tsvector('english', coalesce(b."title", '')), 'A') || setweight(to_tsvector('english', coalesce(a."firstName", '') || ' ' || coalesce(a."lastName", '')), 'B') || setweight(to_tsvector('english', coalesce(a."biography", '')), 'C') || setweight(to_tsvector('english', coalesce(b."genre", '')), 'D') FROM "authors" a WHERE a."id" = b."authorId"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_books_search_vector"`);
+    await queryRunner.query(`ALTER TABLE "books" DROP COLUMN "searchVector"`);
+  }
+}
@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAutocompleteIndexes1729800000000 implements MigrationInterface {
+  name = 'AddAutocompleteIndexes1729800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_books_title_trgm" ON "books" USING GIN ("title" gin_trgm_ops)`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_authors_name_trgm" ON "authors" USING GIN (("firstName" || ' ' || "lastName") gin_trgm_ops)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_authors_name_trgm"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_books_title_trgm"`);
+  }
+}
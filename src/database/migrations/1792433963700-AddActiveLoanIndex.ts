@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddActiveLoanIndex1792433963700 implements MigrationInterface {
+  name = 'AddActiveLoanIndex1792433963700';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_borrowings_active_copy" ON "borrowings" ("copyId") WHERE "status" IN ('BORROWED', 'OVERDUE')`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_borrowings_active_copy"`);
+  }
+}
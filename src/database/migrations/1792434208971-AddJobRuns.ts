@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddJobRuns1792434208971 implements MigrationInterface {
+  name = 'AddJobRuns1792434208971';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."job_runs_trigger_enum" AS ENUM('SCHEDULE', 'MANUAL')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."job_runs_status_enum" AS ENUM('RUNNING', 'SUCCEEDED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "job_runs" ("id" SERIAL NOT NULL, "jobName" character varying NOT NULL, "trigger" "public"."job_runs_trigger_enum" NOT NULL, "status" "public"."job_runs_status_enum" NOT NULL DEFAULT 'RUNNING', "startedAt" TIMESTAMP NOT NULL, "finishedAt" TIMESTAMP, "durationMs" integer, "result" jsonb, "error" text, CONSTRAINT "PK_4d0012c04fcfc287550b76be7e9" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_7d6922d808068f2f4c2230e05a" ON "job_runs" ("jobName", "startedAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_7d6922d808068f2f4c2230e05a"`);
+    await queryRunner.query(`DROP TABLE "job_runs"`);
+    await queryRunner.query(`DROP TYPE "public"."job_runs_status_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."job_runs_trigger_enum"`);
+  }
+}
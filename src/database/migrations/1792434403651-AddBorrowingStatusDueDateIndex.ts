@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBorrowingStatusDueDateIndex1792434403651 implements MigrationInterface {
+  name = 'AddBorrowingStatusDueDateIndex1792434403651';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE INDEX "IDX_3de37232c680fd82e253a9d03e" ON "borrowings" ("status", "dueDate") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_3de37232c680fd82e253a9d03e"`);
+  }
+}
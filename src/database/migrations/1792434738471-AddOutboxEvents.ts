@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxEvents1792434738471 implements MigrationInterface {
+  name = 'AddOutboxEvents1792434738471';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "outbox_events" ("id" SERIAL NOT NULL, "type" character varying NOT NULL, "payload" jsonb NOT NULL, "occurredAt" TIMESTAMP NOT NULL DEFAULT now(), "availableAt" TIMESTAMP NOT NULL DEFAULT now(), "attempts" integer NOT NULL DEFAULT '0', "lastError" text, "dispatchedAt" TIMESTAMP, CONSTRAINT "PK_6689a16c00d09b8089f6237f1d2" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbox_events_pending" ON "outbox_events" ("availableAt", "id") WHERE "dispatchedAt" IS NULL`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_outbox_events_pending"`);
+    await queryRunner.query(`DROP TABLE "outbox_events"`);
+  }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddWebhooks1792435030872 implements MigrationInterface {
+  name = 'AddWebhooks1792435030872';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "webhook_subscriptions" ("id" SERIAL NOT NULL, "url" character varying NOT NULL, "secret" character varying NOT NULL, "events" character varying array NOT NULL DEFAULT '{}', "active" boolean NOT NULL DEFAULT true, "description" character varying, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_bf631ae77d39849d599817fb6f4" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."webhook_deliveries_status_enum" AS ENUM('PENDING', 'SUCCEEDED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "webhook_deliveries" ("id" SERIAL NOT NULL, "subscriptionId" integer NOT NULL, "eventId" integer NOT NULL, "eventType" character varying NOT NULL, "payload" jsonb NOT NULL, "status" "public"."webhook_deliveries_status_enum" NOT NULL DEFAULT 'PENDING', "attempts" integer NOT NULL DEFAULT '0', "nextAttemptAt" TIMESTAMP NOT NULL DEFAULT now(), "responseStatus" integer, "lastError" text, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "deliveredAt" TIMESTAMP, CONSTRAINT "PK_535dd409947fb6d8fc6dfc0112a" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_webhook_deliveries_pending" ON "webhook_deliveries" ("nextAttemptAt", "id") WHERE "status" = 'PENDING'`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_ccf9209de2cab270a730fbb9af" ON "webhook_deliveries" ("subscriptionId", "eventId") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "FK_336d332b73385acf5c5879e42be" FOREIGN KEY ("subscriptionId") REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "webhook_deliveries" DROP CONSTRAINT "FK_336d332b73385acf5c5879e42be"`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_ccf9209de2cab270a730fbb9af"`);
+    await queryRunner.query(`DROP INDEX "public"."IDX_webhook_deliveries_pending"`);
+    await queryRunner.query(`DROP TABLE "webhook_deliveries"`);
+    await queryRunner.query(`DROP TYPE "public"."webhook_deliveries_status_enum"`);
+    await queryRunner.query(`DROP TABLE "webhook_subscriptions"`);
+  }
+}
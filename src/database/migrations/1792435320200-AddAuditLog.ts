@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuditLog1792435320200 implements MigrationInterface {
+  name = 'AddAuditLog1792435320200';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_log_entitytype_enum" AS ENUM('BOOK', 'AUTHOR', 'COPY', 'PATRON', 'BORROWING')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_log_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'BORROW', 'RETURN')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "audit_log" ("id" SERIAL NOT NULL, "actorId" integer, "actorEmail" character varying, "entityType" "public"."audit_log_entitytype_enum" NOT NULL, "entityId" integer NOT NULL, "action" "public"."audit_log_action_enum" NOT NULL, "changes" jsonb NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_07fefa57f7f5ab8fc3f52b3ed0b" PRIMARY KEY ("id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_fe136e92db2440f811efa6bbc6" ON "audit_log" ("entityType", "entityId", "createdAt") `,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_fe136e92db2440f811efa6bbc6"`);
+    await queryRunner.query(`DROP TABLE "audit_log"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_log_action_enum"`);
+    await queryRunner.query(`DROP TYPE "public"."audit_log_entitytype_enum"`);
+  }
+}
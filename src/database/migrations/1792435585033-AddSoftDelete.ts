@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSoftDelete1792435585033 implements MigrationInterface {
+  name = 'AddSoftDelete1792435585033';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "authors" ADD "deletedAt" TIMESTAMP`);
+    await queryRunner.query(`ALTER TABLE "books" ADD "deletedAt" TIMESTAMP`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_log_action_enum" RENAME TO "audit_log_action_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_log_action_enum" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'RESTORE', 'BORROW', 'RETURN')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_log" ALTER COLUMN "action" TYPE "public"."audit_log_action_enum" USING "action"::"text"::"public"."audit_log_action_enum"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."audit_log_action_enum_old"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."audit_log_action_enum_old" AS ENUM('CREATE', 'UPDATE', 'DELETE', 'BORROW', 'RETURN')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "audit_log" ALTER COLUMN "action" TYPE "public"."audit_log_action_enum_old" USING "action"::"text"::"public"."audit_log_action_enum_old"`,
+    );
+    await queryRunner.query(`DROP TYPE "public"."audit_log_action_enum"`);
+    await queryRunner.query(
+      `ALTER TYPE "public"."audit_log_action_enum_old" RENAME TO "audit_log_action_enum"`,
+    );
+    await queryRunner.query(`ALTER TABLE "books" DROP COLUMN "deletedAt"`);
+    await queryRunner.query(`ALTER TABLE "authors" DROP COLUMN "deletedAt"`);
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBookStatus1792435769509 implements MigrationInterface {
+  name = 'AddBookStatus1792435769509';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."books_status_enum" AS ENUM('ACTIVE', 'WITHDRAWN', 'LOST', 'ARCHIVED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "books" ADD "status" "public"."books_status_enum" NOT NULL DEFAULT 'ACTIVE'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "books" DROP COLUMN "status"`);
+    await queryRunner.query(`DROP TYPE "public"."books_status_enum"`);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+// A copy of the ISBN rules as they stood when this migration was written, so later
+// changes to books/isbn.util cannot change what it does on a fresh database
+function isbn10CheckDigit(first9: string): string {
+  const sum = [...first9].reduce((total, digit, index) => total + Number(digit) * (10 - index), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return check === 10 ? 'X' : String(check);
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = [...first12].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3),
+    0,
+  );
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Bare ISBN-13 for a valid ISBN-10 or ISBN-13 (hyphens and spaces allowed), otherwise null
+function toIsbn13(value: string): string | null {
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+  if (/^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]) {
+    return isbn;
+  }
+  if (/^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]) {
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+  return null;
+}
+
+export class NormalizeIsbns1792436005921 implements MigrationInterface {
+  name = 'NormalizeIsbns1792436005921';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const books: { id: number; isbn: string }[] = await queryRunner.query(
+      `SELECT "id", "isbn" FROM "books" ORDER BY "id"`,
+    );
+    const taken = new Set(books.map((book) => book.isbn));
+
+    for (const { id, isbn } of books) {
+      const canonical = toIsbn13(isbn);
+      // Invalid ISBNs, and duplicates of a book already stored canonically, are left for staff to fix
+      if (!canonical || canonical === isbn || taken.has(canonical)) {
+        continue;
+      }
+      await queryRunner.query(`UPDATE "books" SET "isbn" = $1 WHERE "id" = $2`, [canonical, id]);
+      taken.add(canonical);
+    }
+  }
+
+  public async down(): Promise<void> {
+    // The original formatting of each ISBN is not kept, and canonical ISBNs remain valid
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RequireBorrowingCopyAndPatron1792436318442 implements MigrationInterface {
+  name = 'RequireBorrowingCopyAndPatron1792436318442';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // AddPatrons and AddBookCopies backfilled every legacy loan, so no row is left without them
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "copyId" SET NOT NULL`);
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "patronId" SET NOT NULL`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "patronId" DROP NOT NULL`);
+    await queryRunner.query(`ALTER TABLE "borrowings" ALTER COLUMN "copyId" DROP NOT NULL`);
+  }
+}
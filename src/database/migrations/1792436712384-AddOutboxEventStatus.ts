@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddOutboxEventStatus1792436712384 implements MigrationInterface {
+  name = 'AddOutboxEventStatus1792436712384';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."outbox_events_status_enum" AS ENUM('PENDING', 'DISPATCHED', 'FAILED')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "outbox_events" ADD "status" "public"."outbox_events_status_enum" NOT NULL DEFAULT 'PENDING'`,
+    );
+    await queryRunner.query(
+      `UPDATE "outbox_events" SET "status" = 'DISPATCHED' WHERE "dispatchedAt" IS NOT NULL`,
+    );
+    await queryRunner.query(`DROP INDEX "public"."IDX_outbox_events_pending"`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbox_events_pending" ON "outbox_events" ("availableAt", "id") WHERE "status" = 'PENDING'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_outbox_events_pending"`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_outbox_events_pending" ON "outbox_events" ("availableAt", "id") WHERE "dispatchedAt" IS NULL`,
+    );
+    await queryRunner.query(`ALTER TABLE "outbox_events" DROP COLUMN "status"`);
+    await queryRunner.query(`DROP TYPE "public"."outbox_events_status_enum"`);
+  }
+}
@@ -2,17 +2,14 @@ import { DataSource } from 'typeorm';
 import { Book } from '../books/entities/book.entity';
 import { Author } from '../authors/entities/author.entity';
 import { Borrowing } from '../borrowings/entities/borrowing.entity';
-
-const dataSource = new DataSource({
-  type: 'postgres',
-  host: process.env.DATABASE_HOST || 'localhost',
-  port: parseInt(process.env.DATABASE_PORT || '5432'),
-  username: process.env.DATABASE_USER || 'library_user',
-  password: process.env.DATABASE_PASSWORD || 'library_password',
-  database: process.env.DATABASE_NAME || 'library_db',
-  entities: [Book, Author, Borrowing],
-  synchronize: false,
-});
+import { Patron } from '../patrons/entities/patron.entity';
+import { BookCopy } from '../copies/entities/book-copy.entity';
+import { User } from '../auth/entities/user.entity';
+import { hashPassword } from '../auth/password.util';
+import { refreshSearchVectorSql } from '../search/search-vector.util';
+import { formatBarcode } from '../copies/barcode.util';
+import { toIsbn13 } from '../books/isbn.util';
+import dataSource from './data-source';
 
 export async function seedDatabase(dataSourceInstance?: DataSource) {
   const ds = dataSourceInstance || dataSource;
@@ -27,21 +24,34 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     const authorRepository = ds.getRepository(Author);
     const bookRepository = ds.getRepository(Book);
     const borrowingRepository = ds.getRepository(Borrowing);
+    const patronRepository = ds.getRepository(Patron);
+    const copyRepository = ds.getRepository(BookCopy);
+    const userRepository = ds.getRepository(User);
 
     // Check if tables exist before truncating
     const tablesExist = await ds.query(`
       SELECT COUNT(*) as count 
       FROM information_schema.tables 
       WHERE table_schema = 'public' 
-      AND table_name IN ('authors', 'books', 'borrowings')
+      AND table_name IN ('authors', 'books', 'borrowings', 'patrons', 'book_copies')
     `);
     
-    if (parseInt(tablesExist[0].count) === 3) {
+    if (parseInt(tablesExist[0].count) === 5) {
       // Clear existing data using TRUNCATE CASCADE to handle foreign key constraints
-      await ds.query('TRUNCATE TABLE borrowings, books, authors RESTART IDENTITY CASCADE');
+      await ds.query(
+        'TRUNCATE TABLE borrowings, book_copies, patrons, books, authors RESTART IDENTITY CASCADE',
+      );
       console.log('Cleared existing data');
     } else {
-      console.log('Tables do not exist yet, skipping truncate (schema will be created by synchronize)');
+      console.log('Tables do not exist yet, skipping truncate (run `npm run migration:run` first)');
+    }
+
+    // Login accounts are not reached by the cascade above (staff have no patron)
+    const [{ exists: usersTableExists }] = await ds.query(
+      `SELECT to_regclass('public.users') IS NOT NULL AS exists`,
+    );
+    if (usersTableExists) {
+      await ds.query('TRUNCATE TABLE users RESTART IDENTITY CASCADE');
     }
 
     // Create Authors
@@ -208,140 +218,167 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     // Create Books - Expanded list with many classic and popular books
     const booksData = [
       // F. Scott Fitzgerald
-      { title: 'The Great Gatsby', isbn: '978-0-7432-7356-5', authorId: authors[0].id, publishedYear: 1925, genre: 'Fiction', available: true },
-      { title: 'Tender Is the Night', isbn: '978-0-684-80147-6', authorId: authors[0].id, publishedYear: 1934, genre: 'Fiction', available: true },
-      { title: 'This Side of Paradise', isbn: '978-0-684-80148-3', authorId: authors[0].id, publishedYear: 1920, genre: 'Fiction', available: true },
+      { title: 'The Great Gatsby', isbn: '978-0-7432-7356-5', authorId: authors[0].id, publishedYear: 1925, genre: 'Fiction' },
+      { title: 'Tender Is the Night', isbn: '978-0-684-80147-6', authorId: authors[0].id, publishedYear: 1934, genre: 'Fiction' },
+      { title: 'This Side of Paradise', isbn: '978-0-684-80148-3', authorId: authors[0].id, publishedYear: 1920, genre: 'Fiction' },
       
       // Jane Austen
-      { title: 'Pride and Prejudice', isbn: '978-0-14-143951-8', authorId: authors[1].id, publishedYear: 1813, genre: 'Romance', available: true },
-      { title: 'Sense and Sensibility', isbn: '978-0-14-143966-2', authorId: authors[1].id, publishedYear: 1811, genre: 'Romance', available: true },
-      { title: 'Emma', isbn: '978-0-14-143958-7', authorId: authors[1].id, publishedYear: 1815, genre: 'Romance', available: true },
-      { title: 'Mansfield Park', isbn: '978-0-14-143980-8', authorId: authors[1].id, publishedYear: 1814, genre: 'Romance', available: true },
-      { title: 'Persuasion', isbn: '978-0-14-143968-6', authorId: authors[1].id, publishedYear: 1817, genre: 'Romance', available: true },
+      { title: 'Pride and Prejudice', isbn: '978-0-14-143951-8', authorId: authors[1].id, publishedYear: 1813, genre: 'Romance' },
+      { title: 'Sense and Sensibility', isbn: '978-0-14-143966-2', authorId: authors[1].id, publishedYear: 1811, genre: 'Romance' },
+      { title: 'Emma', isbn: '978-0-14-143958-7', authorId: authors[1].id, publishedYear: 1815, genre: 'Romance' },
+      { title: 'Mansfield Park', isbn: '978-0-14-143980-8', authorId: authors[1].id, publishedYear: 1814, genre: 'Romance' },
+      { title: 'Persuasion', isbn: '978-0-14-143968-6', authorId: authors[1].id, publishedYear: 1817, genre: 'Romance' },
       
       // George Orwell
-      { title: '1984', isbn: '978-0-452-28423-4', authorId: authors[2].id, publishedYear: 1949, genre: 'Dystopian Fiction', available: true },
-      { title: 'Animal Farm', isbn: '978-0-452-28424-1', authorId: authors[2].id, publishedYear: 1945, genre: 'Political Satire', available: true },
-      { title: 'Homage to Catalonia', isbn: '978-0-15-642117-1', authorId: authors[2].id, publishedYear: 1938, genre: 'Non-Fiction', available: true },
+      { title: '1984', isbn: '978-0-452-28423-4', authorId: authors[2].id, publishedYear: 1949, genre: 'Dystopian Fiction' },
+      { title: 'Animal Farm', isbn: '978-0-452-28424-1', authorId: authors[2].id, publishedYear: 1945, genre: 'Political Satire' },
+      { title: 'Homage to Catalonia', isbn: '978-0-15-642117-1', authorId: authors[2].id, publishedYear: 1938, genre: 'Non-Fiction' },
       
       // J.K. Rowling
-      { title: 'Harry Potter and the Philosopher\'s Stone', isbn: '978-0-7475-3269-6', authorId: authors[3].id, publishedYear: 1997, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Chamber of Secrets', isbn: '978-0-7475-3849-2', authorId: authors[3].id, publishedYear: 1998, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Prisoner of Azkaban', isbn: '978-0-7475-4215-5', authorId: authors[3].id, publishedYear: 1999, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Goblet of Fire', isbn: '978-0-7475-4624-5', authorId: authors[3].id, publishedYear: 2000, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Order of the Phoenix', isbn: '978-0-7475-5100-6', authorId: authors[3].id, publishedYear: 2003, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Half-Blood Prince', isbn: '978-0-7475-8108-9', authorId: authors[3].id, publishedYear: 2005, genre: 'Fantasy', available: true },
-      { title: 'Harry Potter and the Deathly Hallows', isbn: '978-0-545-01022-1', authorId: authors[3].id, publishedYear: 2007, genre: 'Fantasy', available: true },
+      { title: 'Harry Potter and the Philosopher\'s Stone', isbn: '978-0-7475-3269-9', authorId: authors[3].id, publishedYear: 1997, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Chamber of Secrets', isbn: '978-0-7475-3849-3', authorId: authors[3].id, publishedYear: 1998, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Prisoner of Azkaban', isbn: '978-0-7475-4215-5', authorId: authors[3].id, publishedYear: 1999, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Goblet of Fire', isbn: '978-0-7475-4624-5', authorId: authors[3].id, publishedYear: 2000, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Order of the Phoenix', isbn: '978-0-7475-5100-3', authorId: authors[3].id, publishedYear: 2003, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Half-Blood Prince', isbn: '978-0-7475-8108-6', authorId: authors[3].id, publishedYear: 2005, genre: 'Fantasy' },
+      { title: 'Harry Potter and the Deathly Hallows', isbn: '978-0-545-01022-1', authorId: authors[3].id, publishedYear: 2007, genre: 'Fantasy' },
       
       // Harper Lee
-      { title: 'To Kill a Mockingbird', isbn: '978-0-06-112008-4', authorId: authors[4].id, publishedYear: 1960, genre: 'Fiction', available: true },
-      { title: 'Go Set a Watchman', isbn: '978-0-06-240985-0', authorId: authors[4].id, publishedYear: 2015, genre: 'Fiction', available: true },
+      { title: 'To Kill a Mockingbird', isbn: '978-0-06-112008-4', authorId: authors[4].id, publishedYear: 1960, genre: 'Fiction' },
+      { title: 'Go Set a Watchman', isbn: '978-0-06-240985-0', authorId: authors[4].id, publishedYear: 2015, genre: 'Fiction' },
       
       // Ernest Hemingway
-      { title: 'The Old Man and the Sea', isbn: '978-0-684-80122-3', authorId: authors[5].id, publishedYear: 1952, genre: 'Fiction', available: true },
-      { title: 'The Catcher in the Rye', isbn: '978-0-316-76948-0', authorId: authors[5].id, publishedYear: 1951, genre: 'Fiction', available: true },
-      { title: 'A Farewell to Arms', isbn: '978-0-684-80138-4', authorId: authors[5].id, publishedYear: 1929, genre: 'Fiction', available: true },
-      { title: 'For Whom the Bell Tolls', isbn: '978-0-684-80139-1', authorId: authors[5].id, publishedYear: 1940, genre: 'Fiction', available: true },
-      { title: 'The Sun Also Rises', isbn: '978-0-684-80140-7', authorId: authors[5].id, publishedYear: 1926, genre: 'Fiction', available: true },
+      { title: 'The Old Man and the Sea', isbn: '978-0-684-80122-3', authorId: authors[5].id, publishedYear: 1952, genre: 'Fiction' },
+      { title: 'The Catcher in the Rye', isbn: '978-0-316-76948-8', authorId: authors[5].id, publishedYear: 1951, genre: 'Fiction' },
+      { title: 'A Farewell to Arms', isbn: '978-0-684-80138-4', authorId: authors[5].id, publishedYear: 1929, genre: 'Fiction' },
+      { title: 'For Whom the Bell Tolls', isbn: '978-0-684-80139-1', authorId: authors[5].id, publishedYear: 1940, genre: 'Fiction' },
+      { title: 'The Sun Also Rises', isbn: '978-0-684-80140-7', authorId: authors[5].id, publishedYear: 1926, genre: 'Fiction' },
       
       // Agatha Christie
-      { title: 'Murder on the Orient Express', isbn: '978-0-06-269366-2', authorId: authors[6].id, publishedYear: 1934, genre: 'Mystery', available: true },
-      { title: 'Death on the Nile', isbn: '978-0-06-269367-9', authorId: authors[6].id, publishedYear: 1937, genre: 'Mystery', available: true },
-      { title: 'The Murder of Roger Ackroyd', isbn: '978-0-06-269368-6', authorId: authors[6].id, publishedYear: 1926, genre: 'Mystery', available: true },
-      { title: 'And Then There Were None', isbn: '978-0-06-269369-3', authorId: authors[6].id, publishedYear: 1939, genre: 'Mystery', available: true },
-      { title: 'The ABC Murders', isbn: '978-0-06-269370-9', authorId: authors[6].id, publishedYear: 1936, genre: 'Mystery', available: true },
-      { title: 'Curtain', isbn: '978-0-06-269371-6', authorId: authors[6].id, publishedYear: 1975, genre: 'Mystery', available: true },
+      { title: 'Murder on the Orient Express', isbn: '978-0-06-269366-2', authorId: authors[6].id, publishedYear: 1934, genre: 'Mystery' },
+      { title: 'Death on the Nile', isbn: '978-0-06-269367-9', authorId: authors[6].id, publishedYear: 1937, genre: 'Mystery' },
+      { title: 'The Murder of Roger Ackroyd', isbn: '978-0-06-269368-6', authorId: authors[6].id, publishedYear: 1926, genre: 'Mystery' },
+      { title: 'And Then There Were None', isbn: '978-0-06-269369-3', authorId: authors[6].id, publishedYear: 1939, genre: 'Mystery' },
+      { title: 'The ABC Murders', isbn: '978-0-06-269370-9', authorId: authors[6].id, publishedYear: 1936, genre: 'Mystery' },
+      { title: 'Curtain', isbn: '978-0-06-269371-6', authorId: authors[6].id, publishedYear: 1975, genre: 'Mystery' },
       
       // Charles Dickens
-      { title: 'A Tale of Two Cities', isbn: '978-0-14-143960-0', authorId: authors[7].id, publishedYear: 1859, genre: 'Historical Fiction', available: true },
-      { title: 'Great Expectations', isbn: '978-0-14-143956-3', authorId: authors[7].id, publishedYear: 1861, genre: 'Fiction', available: false },
-      { title: 'Oliver Twist', isbn: '978-0-14-143974-7', authorId: authors[7].id, publishedYear: 1838, genre: 'Fiction', available: true },
-      { title: 'David Copperfield', isbn: '978-0-14-143916-7', authorId: authors[7].id, publishedYear: 1850, genre: 'Fiction', available: true },
-      { title: 'A Christmas Carol', isbn: '978-0-14-143947-1', authorId: authors[7].id, publishedYear: 1843, genre: 'Fiction', available: true },
-      { title: 'Bleak House', isbn: '978-0-14-143972-3', authorId: authors[7].id, publishedYear: 1853, genre: 'Fiction', available: true },
+      { title: 'A Tale of Two Cities', isbn: '978-0-14-143960-0', authorId: authors[7].id, publishedYear: 1859, genre: 'Historical Fiction' },
+      { title: 'Great Expectations', isbn: '978-0-14-143956-3', authorId: authors[7].id, publishedYear: 1861, genre: 'Fiction' },
+      { title: 'Oliver Twist', isbn: '978-0-14-143974-7', authorId: authors[7].id, publishedYear: 1838, genre: 'Fiction' },
+      { title: 'David Copperfield', isbn: '978-0-14-143916-7', authorId: authors[7].id, publishedYear: 1850, genre: 'Fiction' },
+      { title: 'A Christmas Carol', isbn: '978-0-14-143947-1', authorId: authors[7].id, publishedYear: 1843, genre: 'Fiction' },
+      { title: 'Bleak House', isbn: '978-0-14-143972-3', authorId: authors[7].id, publishedYear: 1853, genre: 'Fiction' },
       
       // Mark Twain
-      { title: 'The Adventures of Huckleberry Finn', isbn: '978-0-14-243717-9', authorId: authors[8].id, publishedYear: 1884, genre: 'Fiction', available: true },
-      { title: 'The Adventures of Tom Sawyer', isbn: '978-0-14-243717-8', authorId: authors[8].id, publishedYear: 1876, genre: 'Fiction', available: true },
-      { title: 'A Connecticut Yankee in King Arthur\'s Court', isbn: '978-0-14-243717-7', authorId: authors[8].id, publishedYear: 1889, genre: 'Fiction', available: true },
-      { title: 'The Prince and the Pauper', isbn: '978-0-14-243717-6', authorId: authors[8].id, publishedYear: 1881, genre: 'Fiction', available: true },
+      { title: 'The Adventures of Huckleberry Finn', isbn: '978-0-14-243717-9', authorId: authors[8].id, publishedYear: 1884, genre: 'Fiction' },
+      { title: 'The Adventures of Tom Sawyer', isbn: '978-0-14-243718-6', authorId: authors[8].id, publishedYear: 1876, genre: 'Fiction' },
+      { title: 'A Connecticut Yankee in King Arthur\'s Court', isbn: '978-0-14-243719-3', authorId: authors[8].id, publishedYear: 1889, genre: 'Fiction' },
+      { title: 'The Prince and the Pauper', isbn: '978-0-14-243720-9', authorId: authors[8].id, publishedYear: 1881, genre: 'Fiction' },
       
       // Leo Tolstoy
-      { title: 'War and Peace', isbn: '978-0-14-044793-4', authorId: authors[9].id, publishedYear: 1869, genre: 'Historical Fiction', available: true },
-      { title: 'Anna Karenina', isbn: '978-0-14-044793-5', authorId: authors[9].id, publishedYear: 1877, genre: 'Fiction', available: true },
-      { title: 'The Death of Ivan Ilyich', isbn: '978-0-14-044793-6', authorId: authors[9].id, publishedYear: 1886, genre: 'Fiction', available: true },
+      { title: 'War and Peace', isbn: '978-0-14-044793-4', authorId: authors[9].id, publishedYear: 1869, genre: 'Historical Fiction' },
+      { title: 'Anna Karenina', isbn: '978-0-14-044794-1', authorId: authors[9].id, publishedYear: 1877, genre: 'Fiction' },
+      { title: 'The Death of Ivan Ilyich', isbn: '978-0-14-044795-8', authorId: authors[9].id, publishedYear: 1886, genre: 'Fiction' },
       
       // Virginia Woolf
-      { title: 'Mrs. Dalloway', isbn: '978-0-15-662870-9', authorId: authors[10].id, publishedYear: 1925, genre: 'Fiction', available: true },
-      { title: 'To the Lighthouse', isbn: '978-0-15-690739-2', authorId: authors[10].id, publishedYear: 1927, genre: 'Fiction', available: true },
-      { title: 'Orlando', isbn: '978-0-15-670160-8', authorId: authors[10].id, publishedYear: 1928, genre: 'Fiction', available: true },
-      { title: 'The Waves', isbn: '978-0-15-694960-6', authorId: authors[10].id, publishedYear: 1931, genre: 'Fiction', available: true },
+      { title: 'Mrs. Dalloway', isbn: '978-0-15-662870-9', authorId: authors[10].id, publishedYear: 1925, genre: 'Fiction' },
+      { title: 'To the Lighthouse', isbn: '978-0-15-690739-2', authorId: authors[10].id, publishedYear: 1927, genre: 'Fiction' },
+      { title: 'Orlando', isbn: '978-0-15-670160-0', authorId: authors[10].id, publishedYear: 1928, genre: 'Fiction' },
+      { title: 'The Waves', isbn: '978-0-15-694960-6', authorId: authors[10].id, publishedYear: 1931, genre: 'Fiction' },
       
       // Gabriel García Márquez
-      { title: 'One Hundred Years of Solitude', isbn: '978-0-06-088328-7', authorId: authors[11].id, publishedYear: 1967, genre: 'Magical Realism', available: true },
-      { title: 'Love in the Time of Cholera', isbn: '978-0-14-303907-8', authorId: authors[11].id, publishedYear: 1985, genre: 'Fiction', available: true },
-      { title: 'Chronicle of a Death Foretold', isbn: '978-0-14-303715-9', authorId: authors[11].id, publishedYear: 1981, genre: 'Fiction', available: true },
+      { title: 'One Hundred Years of Solitude', isbn: '978-0-06-088328-7', authorId: authors[11].id, publishedYear: 1967, genre: 'Magical Realism' },
+      { title: 'Love in the Time of Cholera', isbn: '978-0-14-303907-5', authorId: authors[11].id, publishedYear: 1985, genre: 'Fiction' },
+      { title: 'Chronicle of a Death Foretold', isbn: '978-0-14-303715-6', authorId: authors[11].id, publishedYear: 1981, genre: 'Fiction' },
       
       // Toni Morrison
-      { title: 'Beloved', isbn: '978-1-4000-3341-6', authorId: authors[12].id, publishedYear: 1987, genre: 'Fiction', available: true },
-      { title: 'The Bluest Eye', isbn: '978-0-452-28707-5', authorId: authors[12].id, publishedYear: 1970, genre: 'Fiction', available: true },
-      { title: 'Song of Solomon', isbn: '978-1-4000-3342-3', authorId: authors[12].id, publishedYear: 1977, genre: 'Fiction', available: true },
-      { title: 'Sula', isbn: '978-1-4000-3343-0', authorId: authors[12].id, publishedYear: 1973, genre: 'Fiction', available: true },
+      { title: 'Beloved', isbn: '978-1-4000-3341-6', authorId: authors[12].id, publishedYear: 1987, genre: 'Fiction' },
+      { title: 'The Bluest Eye', isbn: '978-0-452-28707-5', authorId: authors[12].id, publishedYear: 1970, genre: 'Fiction' },
+      { title: 'Song of Solomon', isbn: '978-1-4000-3342-3', authorId: authors[12].id, publishedYear: 1977, genre: 'Fiction' },
+      { title: 'Sula', isbn: '978-1-4000-3343-0', authorId: authors[12].id, publishedYear: 1973, genre: 'Fiction' },
       
       // Isaac Asimov
-      { title: 'Foundation', isbn: '978-0-553-29335-7', authorId: authors[13].id, publishedYear: 1951, genre: 'Science Fiction', available: true },
-      { title: 'I, Robot', isbn: '978-0-553-29438-5', authorId: authors[13].id, publishedYear: 1950, genre: 'Science Fiction', available: true },
-      { title: 'The Caves of Steel', isbn: '978-0-553-29340-1', authorId: authors[13].id, publishedYear: 1954, genre: 'Science Fiction', available: true },
-      { title: 'The End of Eternity', isbn: '978-0-553-29341-8', authorId: authors[13].id, publishedYear: 1955, genre: 'Science Fiction', available: true },
-      { title: 'The Gods Themselves', isbn: '978-0-553-29342-5', authorId: authors[13].id, publishedYear: 1972, genre: 'Science Fiction', available: true },
+      { title: 'Foundation', isbn: '978-0-553-29335-7', authorId: authors[13].id, publishedYear: 1951, genre: 'Science Fiction' },
+      { title: 'I, Robot', isbn: '978-0-553-29438-5', authorId: authors[13].id, publishedYear: 1950, genre: 'Science Fiction' },
+      { title: 'The Caves of Steel', isbn: '978-0-553-29340-1', authorId: authors[13].id, publishedYear: 1954, genre: 'Science Fiction' },
+      { title: 'The End of Eternity', isbn: '978-0-553-29341-8', authorId: authors[13].id, publishedYear: 1955, genre: 'Science Fiction' },
+      { title: 'The Gods Themselves', isbn: '978-0-553-29342-5', authorId: authors[13].id, publishedYear: 1972, genre: 'Science Fiction' },
       
       // Ray Bradbury
-      { title: 'Fahrenheit 451', isbn: '978-0-7432-4722-1', authorId: authors[14].id, publishedYear: 1953, genre: 'Dystopian Fiction', available: true },
-      { title: 'The Martian Chronicles', isbn: '978-0-380-97383-9', authorId: authors[14].id, publishedYear: 1950, genre: 'Science Fiction', available: true },
-      { title: 'Something Wicked This Way Comes', isbn: '978-0-380-97384-6', authorId: authors[14].id, publishedYear: 1962, genre: 'Horror', available: true },
-      { title: 'Dandelion Wine', isbn: '978-0-380-97385-3', authorId: authors[14].id, publishedYear: 1957, genre: 'Fiction', available: true },
+      { title: 'Fahrenheit 451', isbn: '978-0-7432-4722-1', authorId: authors[14].id, publishedYear: 1953, genre: 'Dystopian Fiction' },
+      { title: 'The Martian Chronicles', isbn: '978-0-380-97383-5', authorId: authors[14].id, publishedYear: 1950, genre: 'Science Fiction' },
+      { title: 'Something Wicked This Way Comes', isbn: '978-0-380-97384-2', authorId: authors[14].id, publishedYear: 1962, genre: 'Horror' },
+      { title: 'Dandelion Wine', isbn: '978-0-380-97385-9', authorId: authors[14].id, publishedYear: 1957, genre: 'Fiction' },
       
       // Maya Angelou
-      { title: 'I Know Why the Caged Bird Sings', isbn: '978-0-345-44789-7', authorId: authors[15].id, publishedYear: 1969, genre: 'Autobiography', available: true },
-      { title: 'Gather Together in My Name', isbn: '978-0-345-44790-3', authorId: authors[15].id, publishedYear: 1974, genre: 'Autobiography', available: true },
-      { title: 'The Heart of a Woman', isbn: '978-0-345-44791-0', authorId: authors[15].id, publishedYear: 1981, genre: 'Autobiography', available: true },
+      { title: 'I Know Why the Caged Bird Sings', isbn: '978-0-345-44789-0', authorId: authors[15].id, publishedYear: 1969, genre: 'Autobiography' },
+      { title: 'Gather Together in My Name', isbn: '978-0-345-44790-6', authorId: authors[15].id, publishedYear: 1974, genre: 'Autobiography' },
+      { title: 'The Heart of a Woman', isbn: '978-0-345-44791-3', authorId: authors[15].id, publishedYear: 1981, genre: 'Autobiography' },
       
       // Kurt Vonnegut
-      { title: 'Slaughterhouse-Five', isbn: '978-0-385-33384-9', authorId: authors[16].id, publishedYear: 1969, genre: 'Science Fiction', available: true },
-      { title: 'Cat\'s Cradle', isbn: '978-0-385-33385-6', authorId: authors[16].id, publishedYear: 1963, genre: 'Science Fiction', available: true },
-      { title: 'Breakfast of Champions', isbn: '978-0-385-33386-3', authorId: authors[16].id, publishedYear: 1973, genre: 'Fiction', available: true },
-      { title: 'The Sirens of Titan', isbn: '978-0-385-33387-0', authorId: authors[16].id, publishedYear: 1959, genre: 'Science Fiction', available: true },
+      { title: 'Slaughterhouse-Five', isbn: '978-0-385-33384-9', authorId: authors[16].id, publishedYear: 1969, genre: 'Science Fiction' },
+      { title: 'Cat\'s Cradle', isbn: '978-0-385-33385-6', authorId: authors[16].id, publishedYear: 1963, genre: 'Science Fiction' },
+      { title: 'Breakfast of Champions', isbn: '978-0-385-33386-3', authorId: authors[16].id, publishedYear: 1973, genre: 'Fiction' },
+      { title: 'The Sirens of Titan', isbn: '978-0-385-33387-0', authorId: authors[16].id, publishedYear: 1959, genre: 'Science Fiction' },
       
       // Aldous Huxley
-      { title: 'Brave New World', isbn: '978-0-06-085052-4', authorId: authors[17].id, publishedYear: 1932, genre: 'Dystopian Fiction', available: true },
-      { title: 'The Doors of Perception', isbn: '978-0-06-085053-1', authorId: authors[17].id, publishedYear: 1954, genre: 'Philosophy', available: true },
-      { title: 'Island', isbn: '978-0-06-085054-8', authorId: authors[17].id, publishedYear: 1962, genre: 'Fiction', available: true },
+      { title: 'Brave New World', isbn: '978-0-06-085052-4', authorId: authors[17].id, publishedYear: 1932, genre: 'Dystopian Fiction' },
+      { title: 'The Doors of Perception', isbn: '978-0-06-085053-1', authorId: authors[17].id, publishedYear: 1954, genre: 'Philosophy' },
+      { title: 'Island', isbn: '978-0-06-085054-8', authorId: authors[17].id, publishedYear: 1962, genre: 'Fiction' },
       
       // Mary Shelley
-      { title: 'Frankenstein', isbn: '978-0-14-143947-2', authorId: authors[18].id, publishedYear: 1818, genre: 'Gothic Fiction', available: true },
-      { title: 'The Last Man', isbn: '978-0-14-143948-8', authorId: authors[18].id, publishedYear: 1826, genre: 'Science Fiction', available: true },
+      { title: 'Frankenstein', isbn: '978-0-14-143949-5', authorId: authors[18].id, publishedYear: 1818, genre: 'Gothic Fiction' },
+      { title: 'The Last Man', isbn: '978-0-14-143948-8', authorId: authors[18].id, publishedYear: 1826, genre: 'Science Fiction' },
       
       // Bram Stoker
-      { title: 'Dracula', isbn: '978-0-14-143984-6', authorId: authors[19].id, publishedYear: 1897, genre: 'Gothic Fiction', available: true },
-      { title: 'The Jewel of Seven Stars', isbn: '978-0-14-143985-3', authorId: authors[19].id, publishedYear: 1903, genre: 'Horror', available: true },
+      { title: 'Dracula', isbn: '978-0-14-143984-6', authorId: authors[19].id, publishedYear: 1897, genre: 'Gothic Fiction' },
+      { title: 'The Jewel of Seven Stars', isbn: '978-0-14-143985-3', authorId: authors[19].id, publishedYear: 1903, genre: 'Horror' },
       
       // H.G. Wells
-      { title: 'The Time Machine', isbn: '978-0-14-143997-6', authorId: authors[20].id, publishedYear: 1895, genre: 'Science Fiction', available: true },
-      { title: 'The War of the Worlds', isbn: '978-0-14-143998-3', authorId: authors[20].id, publishedYear: 1898, genre: 'Science Fiction', available: true },
-      { title: 'The Invisible Man', isbn: '978-0-14-143999-0', authorId: authors[20].id, publishedYear: 1897, genre: 'Science Fiction', available: true },
-      { title: 'The Island of Doctor Moreau', isbn: '978-0-14-144000-2', authorId: authors[20].id, publishedYear: 1896, genre: 'Science Fiction', available: true },
+      { title: 'The Time Machine', isbn: '978-0-14-143997-6', authorId: authors[20].id, publishedYear: 1895, genre: 'Science Fiction' },
+      { title: 'The War of the Worlds', isbn: '978-0-14-143998-3', authorId: authors[20].id, publishedYear: 1898, genre: 'Science Fiction' },
+      { title: 'The Invisible Man', isbn: '978-0-14-143999-0', authorId: authors[20].id, publishedYear: 1897, genre: 'Science Fiction' },
+      { title: 'The Island of Doctor Moreau', isbn: '978-0-14-144000-2', authorId: authors[20].id, publishedYear: 1896, genre: 'Science Fiction' },
       
       // J.R.R. Tolkien
-      { title: 'The Hobbit', isbn: '978-0-544-00017-5', authorId: authors[21].id, publishedYear: 1937, genre: 'Fantasy', available: true },
-      { title: 'The Fellowship of the Ring', isbn: '978-0-544-00018-2', authorId: authors[21].id, publishedYear: 1954, genre: 'Fantasy', available: true },
-      { title: 'The Two Towers', isbn: '978-0-544-00019-9', authorId: authors[21].id, publishedYear: 1954, genre: 'Fantasy', available: true },
-      { title: 'The Return of the King', isbn: '978-0-544-00020-5', authorId: authors[21].id, publishedYear: 1955, genre: 'Fantasy', available: true },
-      { title: 'The Silmarillion', isbn: '978-0-544-00021-2', authorId: authors[21].id, publishedYear: 1977, genre: 'Fantasy', available: true },
+      { title: 'The Hobbit', isbn: '978-0-544-00017-9', authorId: authors[21].id, publishedYear: 1937, genre: 'Fantasy' },
+      { title: 'The Fellowship of the Ring', isbn: '978-0-544-00018-6', authorId: authors[21].id, publishedYear: 1954, genre: 'Fantasy' },
+      { title: 'The Two Towers', isbn: '978-0-544-00019-3', authorId: authors[21].id, publishedYear: 1954, genre: 'Fantasy' },
+      { title: 'The Return of the King', isbn: '978-0-544-00020-9', authorId: authors[21].id, publishedYear: 1955, genre: 'Fantasy' },
+      { title: 'The Silmarillion', isbn: '978-0-544-00021-6', authorId: authors[21].id, publishedYear: 1977, genre: 'Fantasy' },
     ];
 
-    const books = await bookRepository.save(booksData);
+    // Stored in the canonical bare ISBN-13 form, as BooksService does
+    const books = await bookRepository.save(
+      booksData.map((book) => ({ ...book, isbn: toIsbn13(book.isbn) })),
+    );
     console.log(`Created ${books.length} books`);
 
+    // Build full-text search vectors for the new books
+    await ds.query(refreshSearchVectorSql('TRUE'));
+
+    // Create physical copies: popular titles get several, everything else one
+    const popularTitles = [
+      '1984',
+      'The Great Gatsby',
+      'To Kill a Mockingbird',
+      "Harry Potter and the Philosopher's Stone",
+      'The Hobbit',
+    ];
+    const copiesData = books.flatMap((book) => {
+      const copyCount = popularTitles.includes(book.title) ? 3 : 1;
+      return Array.from({ length: copyCount }, (_, i) => ({
+        bookId: book.id,
+        barcode: formatBarcode(book.id, i + 1),
+        acquisitionDate: new Date('2020-01-15'),
+        status: 'AVAILABLE' as const,
+      }));
+    });
+    const copies = await copyRepository.save(copiesData);
+    console.log(`Created ${copies.length} book copies`);
+    const firstCopyId = (bookId: number) => copies.find((c) => c.bookId === bookId).id;
+
     // Create some borrowings
     const now = new Date();
     // Helper to format date for PostgreSQL
@@ -359,6 +396,35 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
       return book.id;
     };
 
+    // Create Patrons
+    const patrons = await patronRepository.save([
+      { cardNumber: 'LIB-0000000001', name: 'John Doe', email: 'john.doe@example.com' },
+      { cardNumber: 'LIB-0000000002', name: 'Jane Smith', email: 'jane.smith@example.com' },
+      { cardNumber: 'LIB-0000000003', name: 'Bob Johnson', email: 'bob.johnson@example.com' },
+    ]);
+    console.log(`Created ${patrons.length} patrons`);
+
+    // Create login accounts (demo credentials, see README)
+    const users = await userRepository.save([
+      {
+        email: 'admin@library.local',
+        passwordHash: await hashPassword('admin123'),
+        role: 'ADMIN' as const,
+      },
+      {
+        email: 'librarian@library.local',
+        passwordHash: await hashPassword('librarian123'),
+        role: 'LIBRARIAN' as const,
+      },
+      {
+        email: 'john.doe@example.com',
+        passwordHash: await hashPassword('patron123'),
+        role: 'PATRON' as const,
+        patronId: patrons[0].id,
+      },
+    ]);
+    console.log(`Created ${users.length} users`);
+
     const borrowingsData = [];
     
     // Great Expectations - already borrowed (overdue)
@@ -366,7 +432,8 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     if (greatExpectationsId) {
       borrowingsData.push({
         bookId: greatExpectationsId,
-        borrowerName: 'John Doe',
+        copyId: firstCopyId(greatExpectationsId),
+        patronId: patrons[0].id,
         borrowedDate: formatDate(new Date(now.getTime() - 20 * 24 * 60 * 60 * 1000)), // 20 days ago
         dueDate: formatDate(new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000)), // 6 days ago (overdue)
         status: 'OVERDUE' as const,
@@ -378,7 +445,8 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     if (book1984Id) {
       borrowingsData.push({
         bookId: book1984Id,
-        borrowerName: 'Jane Smith',
+        copyId: firstCopyId(book1984Id),
+        patronId: patrons[1].id,
         borrowedDate: formatDate(new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000)), // 5 days ago
         dueDate: formatDate(new Date(now.getTime() + 9 * 24 * 60 * 60 * 1000)), // 9 days from now
         status: 'BORROWED' as const,
@@ -390,7 +458,8 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     if (greatGatsbyId) {
       borrowingsData.push({
         bookId: greatGatsbyId,
-        borrowerName: 'Bob Johnson',
+        copyId: firstCopyId(greatGatsbyId),
+        patronId: patrons[2].id,
         borrowedDate: formatDate(new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000)), // 30 days ago
         dueDate: formatDate(new Date(now.getTime() - 16 * 24 * 60 * 60 * 1000)), // 16 days ago
         returnedDate: formatDate(new Date(now.getTime() - 10 * 24 * 60 * 60 * 1000)), // returned 10 days ago
@@ -401,17 +470,17 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     const borrowings = await borrowingRepository.save(borrowingsData);
     console.log(`Created ${borrowings.length} borrowings`);
 
-    // Update book availability based on borrowings
-    const borrowedBookIds = borrowings
-      .filter(b => b.status === 'BORROWED' || b.status === 'OVERDUE')
-      .map(b => b.bookId);
-    
-    if (borrowedBookIds.length > 0) {
-      await bookRepository
+    // Mark copies on active loans as checked out
+    const borrowedCopyIds = borrowings
+      .filter((b) => b.status === 'BORROWED' || b.status === 'OVERDUE')
+      .map((b) => b.copyId);
+
+    if (borrowedCopyIds.length > 0) {
+      await copyRepository
         .createQueryBuilder()
-        .update(Book)
-        .set({ available: false })
-        .where('id IN (:...ids)', { ids: borrowedBookIds })
+        .update(BookCopy)
+        .set({ status: 'BORROWED' })
+        .where('id IN (:...ids)', { ids: borrowedCopyIds })
         .execute();
     }
 
@@ -419,9 +488,12 @@ export async function seedDatabase(dataSourceInstance?: DataSource) {
     console.log(`\nSummary:`);
     console.log(`- Authors: ${authors.length}`);
     console.log(`- Books: ${books.length}`);
+    console.log(`- Patrons: ${patrons.length}`);
+    console.log(`- Users: ${users.length}`);
     console.log(`- Borrowings: ${borrowings.length}`);
-    console.log(`- Available books: ${books.length - borrowedBookIds.length}`);
-    console.log(`- Borrowed books: ${borrowedBookIds.length}`);
+    console.log(`- Copies: ${copies.length}`);
+    console.log(`- Available copies: ${copies.length - borrowedCopyIds.length}`);
+    console.log(`- Borrowed copies: ${borrowedCopyIds.length}`);
 
     if (shouldInitialize) {
       await ds.destroy();
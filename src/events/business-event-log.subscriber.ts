@@ -0,0 +1,25 @@
+import { Injectable, Inject, OnModuleInit } from '@nestjs/common';
+import { EventsService } from './events.service';
+import { Logger } from 'common-sense-logger';
+
+/**
+ * Writes every domain event to the application log as
+ * `[BUSINESS_EVENT] <TYPE>`, the format log dashboards already search for.
+ */
+@Injectable()
+export class BusinessEventLogSubscriber implements OnModuleInit {
+  constructor(
+    private readonly eventsService: EventsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {}
+
+  onModuleInit(): void {
+    this.eventsService.subscribeAll('business-event-log', (event) => {
+      this.logger.info(`[BUSINESS_EVENT] ${event.type}`, {
+        eventId: event.id,
+        ...event.payload,
+      });
+    });
+  }
+}
@@ -0,0 +1,116 @@
+import { UserRole } from '../auth/entities/user.entity';
+
+/**
+ * Every domain event the services publish, keyed by type. Payloads are stored
+ * as JSON in the outbox, so dates travel as ISO strings.
+ */
+export interface DomainEventMap {
+  BOOK_CREATED: { bookId: number; title: string };
+  BOOK_UPDATED: { bookId: number; title: string; changes: object };
+  BOOK_DELETED: { bookId: number; title: string };
+  BOOK_RESTORED: { bookId: number; title: string };
+  AUTHOR_CREATED: { authorId: number; fullName: string };
+  AUTHOR_UPDATED: { authorId: number; fullName: string; changes: object };
+  AUTHOR_DELETED: { authorId: number; fullName: string };
+  AUTHOR_RESTORED: { authorId: number; fullName: string };
+  COPY_ADDED: { copyId: number; bookId: number; barcode: string };
+  COPY_UPDATED: { copyId: number; bookId: number; changes: object };
+  COPY_REMOVED: { copyId: number; bookId: number; barcode: string };
+  PATRON_CREATED: { patronId: number; cardNumber: string };
+  PATRON_UPDATED: { patronId: number; changes: object };
+  PATRON_DELETED: { patronId: number; cardNumber: string };
+  BOOK_BORROWED: {
+    borrowingId: number;
+    bookId: number;
+    copyId: number;
+    patronId: number;
+    dueDate: string;
+  };
+  BOOK_RETURNED: {
+    borrowingId: number;
+    bookId: number;
+    copyId: number;
+    patronId: number;
+    wasOverdue: boolean;
+  };
+  BOOK_OVERDUE: { borrowingId: number; bookId: number; patronId: number; dueDate: string };
+  BOOK_RENEWED: {
+    borrowingId: number;
+    bookId: number;
+    patronId: number;
+    renewalCount: number;
+    dueDate: string;
+  };
+  HOLD_PLACED: { holdId: number; bookId: number; patronId: number; queuePosition: number };
+  HOLD_READY: {
+    holdId: number;
+    bookId: number;
+    copyId: number;
+    patronId: number;
+    pickupBy: string;
+  };
+  HOLD_FULFILLED: { holdId: number; bookId: number; patronId: number; copyId: number };
+  HOLD_CANCELLED: { holdId: number; bookId: number; patronId: number };
+  HOLD_EXPIRED: { holdId: number; bookId: number; patronId: number; wasReady: boolean };
+  FINE_ASSESSED: {
+    ledgerEntryId: number;
+    borrowingId: number;
+    patronId: number;
+    amountCents: number;
+  };
+  FINE_PAID: { ledgerEntryId: number; patronId: number; borrowingId?: number; amountCents: number };
+  FINE_WAIVED: {
+    ledgerEntryId: number;
+    patronId: number;
+    borrowingId?: number;
+    amountCents: number;
+  };
+  USER_CREATED: { userId: number; role: UserRole; patronId?: number };
+  USER_LOGGED_IN: { userId: number; role: UserRole };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+// Runtime list of the keys above, for validating event filters in requests
+export const DOMAIN_EVENT_TYPES: readonly DomainEventType[] = [
+  'BOOK_CREATED',
+  'BOOK_UPDATED',
+  'BOOK_DELETED',
+  'BOOK_RESTORED',
+  'AUTHOR_CREATED',
+  'AUTHOR_UPDATED',
+  'AUTHOR_DELETED',
+  'AUTHOR_RESTORED',
+  'COPY_ADDED',
+  'COPY_UPDATED',
+  'COPY_REMOVED',
+  'PATRON_CREATED',
+  'PATRON_UPDATED',
+  'PATRON_DELETED',
+  'BOOK_BORROWED',
+  'BOOK_RETURNED',
+  'BOOK_OVERDUE',
+  'BOOK_RENEWED',
+  'HOLD_PLACED',
+  'HOLD_READY',
+  'HOLD_FULFILLED',
+  'HOLD_CANCELLED',
+  'HOLD_EXPIRED',
+  'FINE_ASSESSED',
+  'FINE_PAID',
+  'FINE_WAIVED',
+  'USER_CREATED',
+  'USER_LOGGED_IN',
+];
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+  /** Outbox id; a redelivered event keeps the same id. */
+  id: number;
+  type: T;
+  payload: DomainEventMap[T];
+  occurredAt: Date;
+}
+
+export type DomainEventHandler<T extends DomainEventType = DomainEventType> = (
+  event: DomainEvent<T>,
+) => Promise<void> | void;
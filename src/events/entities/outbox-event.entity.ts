@@ -0,0 +1,47 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, Index } from 'typeorm';
+
+export const OUTBOX_EVENT_STATUSES = ['PENDING', 'DISPATCHED', 'FAILED'] as const;
+export type OutboxEventStatus = (typeof OUTBOX_EVENT_STATUSES)[number];
+
+/**
+ * A domain event waiting to be (or already) delivered to subscribers. Rows are
+ * inserted in the same transaction as the change they describe and marked
+ * DISPATCHED once every subscriber has handled them, or FAILED once they run
+ * out of attempts.
+ */
+@Entity('outbox_events')
+@Index('IDX_outbox_events_pending', ['availableAt', 'id'], { where: `"status" = 'PENDING'` })
+export class OutboxEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  type: string;
+
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @CreateDateColumn()
+  occurredAt: Date;
+
+  @Column({
+    type: 'enum',
+    enum: OUTBOX_EVENT_STATUSES,
+    default: 'PENDING',
+  })
+  status: OutboxEventStatus;
+
+  // Earliest time of the next delivery attempt; pushed back while claimed and after a failure
+  @Column({ type: 'timestamp', default: () => 'now()' })
+  availableAt: Date;
+
+  // Counted when an attempt is claimed, so attempts cut short by a crash count too
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError?: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  dispatchedAt?: Date;
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { EventsService } from './events.service';
+import { OutboxDispatcher } from './outbox-dispatcher.service';
+import { BusinessEventLogSubscriber } from './business-event-log.subscriber';
+import { LoggerModule } from '../common/logger/logger.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { OutboxEvent } from './entities/outbox-event.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OutboxEvent]), JobsModule, LoggerModule],
+  providers: [EventsService, OutboxDispatcher, BusinessEventLogSubscriber],
+  exports: [EventsService],
+})
+export class EventsModule {}
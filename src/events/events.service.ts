@@ -0,0 +1,86 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { DomainEventHandler, DomainEventMap, DomainEventType } from './domain-events';
+import { Logger } from 'common-sense-logger';
+
+interface Subscription {
+  name: string;
+  type: DomainEventType | '*';
+  handler: DomainEventHandler;
+}
+
+@Injectable()
+export class EventsService {
+  private readonly subscriptions: Subscription[] = [];
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private readonly outboxRepository: Repository<OutboxEvent>,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[EVENTS_SERVICE] EventsService initialized');
+  }
+
+  /**
+   * Records an event in the outbox. Pass the manager of the transaction that
+   * makes the change so the event is committed (or rolled back) with it;
+   * subscribers only see it after commit, via OutboxDispatcher.
+   */
+  async publish<T extends DomainEventType>(
+    type: T,
+    payload: DomainEventMap[T],
+    manager?: EntityManager,
+  ): Promise<void> {
+    const repository = manager ? manager.getRepository(OutboxEvent) : this.outboxRepository;
+    const event = await repository.save(
+      repository.create({ type, payload: payload as Record<string, unknown> }),
+    );
+    this.logger.debug(`[EVENTS_SERVICE] Event recorded: ${type}`, { eventId: event.id, type });
+  }
+
+  // One INSERT for a batch of same-typed events, for set-based callers like the overdue sweep
+  async publishMany<T extends DomainEventType>(
+    type: T,
+    payloads: DomainEventMap[T][],
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (payloads.length === 0) {
+      return;
+    }
+    const repository = manager ? manager.getRepository(OutboxEvent) : this.outboxRepository;
+    await repository.insert(
+      payloads.map((payload) => ({ type, payload: payload as Record<string, unknown> })),
+    );
+    this.logger.debug(`[EVENTS_SERVICE] ${payloads.length} event(s) recorded: ${type}`, {
+      type,
+      count: payloads.length,
+    });
+  }
+
+  /**
+   * Registers an in-process handler. Delivery is at least once, so handlers
+   * must tolerate seeing the same event id again.
+   */
+  subscribe<T extends DomainEventType>(
+    type: T,
+    name: string,
+    handler: DomainEventHandler<T>,
+  ): void {
+    this.subscriptions.push({ name, type, handler: handler as DomainEventHandler });
+    this.logger.debug('[EVENTS_SERVICE] Subscriber registered', { name, type });
+  }
+
+  subscribeAll(name: string, handler: DomainEventHandler): void {
+    this.subscriptions.push({ name, type: '*', handler });
+    this.logger.debug('[EVENTS_SERVICE] Subscriber registered', { name, type: '*' });
+  }
+
+  subscribersFor(type: string): Subscription[] {
+    return this.subscriptions.filter(
+      (subscription) => subscription.type === '*' || subscription.type === type,
+    );
+  }
+}
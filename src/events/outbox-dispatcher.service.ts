@@ -0,0 +1,197 @@
+import { Injectable, Inject, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { OutboxEvent } from './entities/outbox-event.entity';
+import { DomainEvent, DomainEventType } from './domain-events';
+import { EventsService } from './events.service';
+import { JobsService } from '../jobs/jobs.service';
+import { Logger } from 'common-sense-logger';
+
+/**
+ * Polls the outbox and hands committed events to the in-process subscribers.
+ * An event is marked dispatched only after every subscriber succeeded; if one
+ * throws, the whole event is retried later with exponential backoff until
+ * OUTBOX_MAX_ATTEMPTS is reached. Dispatched events are purged after
+ * OUTBOX_RETENTION_DAYS by the outbox-purge job.
+ */
+@Injectable()
+export class OutboxDispatcher implements OnModuleInit, OnApplicationBootstrap {
+  private readonly POLL_INTERVAL_MS = parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10);
+  private readonly BATCH_SIZE = parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10);
+  private readonly MAX_ATTEMPTS = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10);
+  private readonly RETENTION_DAYS = parseInt(process.env.OUTBOX_RETENTION_DAYS || '7', 10);
+  private readonly PURGE_CRON = process.env.OUTBOX_PURGE_CRON || '45 3 * * *';
+  // How long a claimed batch is left alone; an instance that dies mid-batch is retried after it
+  private readonly CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+  private readonly MAX_BACKOFF_MS = 60 * 60 * 1000;
+  private dispatching = false;
+
+  constructor(
+    @InjectRepository(OutboxEvent)
+    private readonly outboxRepository: Repository<OutboxEvent>,
+    private readonly eventsService: EventsService,
+    private readonly jobsService: JobsService,
+    private readonly dataSource: DataSource,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[OUTBOX_DISPATCHER] OutboxDispatcher initialized');
+  }
+
+  onModuleInit(): void {
+    this.jobsService.register({
+      name: 'outbox-purge',
+      cron: this.PURGE_CRON,
+      run: async () => ({ purgedCount: await this.purgeDispatched() }),
+    });
+  }
+
+  onApplicationBootstrap(): void {
+    // Cleared by the schedule module on application shutdown
+    const interval = setInterval(() => this.poll(), this.POLL_INTERVAL_MS);
+    this.schedulerRegistry.addInterval('outbox-dispatcher', interval);
+    this.logger.info('[OUTBOX_DISPATCHER] Polling outbox', {
+      intervalMs: this.POLL_INTERVAL_MS,
+      batchSize: this.BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Delivers one batch of due events. Rows are claimed by counting the attempt
+   * and pushing their availableAt past CLAIM_TIMEOUT_MS in a short SKIP LOCKED
+   * transaction, so the subscribers run outside any transaction and other
+   * instances leave the claimed rows alone.
+   */
+  async dispatchPending(): Promise<number> {
+    const events = await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(OutboxEvent);
+      const due = await repository
+        .createQueryBuilder('event')
+        .where(`event.status = 'PENDING'`)
+        .andWhere('event.availableAt <= now()')
+        .orderBy('event.id', 'ASC')
+        .limit(this.BATCH_SIZE)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      // Interrupted on their last attempt, e.g. by a subscriber that crashes the process
+      const exhausted = due.filter((event) => event.attempts >= this.MAX_ATTEMPTS);
+      if (exhausted.length > 0) {
+        await repository.update({ id: In(exhausted.map(({ id }) => id)) }, { status: 'FAILED' });
+        this.logger.error('[OUTBOX_DISPATCHER] Giving up on interrupted events', {
+          eventIds: exhausted.map(({ id }) => id),
+        });
+      }
+
+      const claimed = due.filter((event) => event.attempts < this.MAX_ATTEMPTS);
+      if (claimed.length > 0) {
+        await repository.update(
+          { id: In(claimed.map(({ id }) => id)) },
+          {
+            attempts: () => '"attempts" + 1',
+            availableAt: new Date(Date.now() + this.CLAIM_TIMEOUT_MS),
+          },
+        );
+      }
+      return claimed;
+    });
+
+    for (const event of events) {
+      event.attempts += 1;
+      await this.attempt(event);
+    }
+    return events.length;
+  }
+
+  // Deletes dispatched events older than RETENTION_DAYS; FAILED ones are kept for inspection
+  async purgeDispatched(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { affected } = await this.outboxRepository.delete({
+      status: 'DISPATCHED',
+      dispatchedAt: LessThan(cutoff),
+    });
+    this.logger.info('[OUTBOX_DISPATCHER] Purged dispatched events', {
+      purgedCount: affected,
+      retentionDays: this.RETENTION_DAYS,
+    });
+    return affected;
+  }
+
+  private async poll(): Promise<void> {
+    // A slow batch must not overlap with the next tick
+    if (this.dispatching) {
+      return;
+    }
+    this.dispatching = true;
+    try {
+      await this.dispatchPending();
+    } catch (error) {
+      this.logger.error('[OUTBOX_DISPATCHER] Failed to poll outbox', { stack: error.stack });
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async attempt(event: OutboxEvent): Promise<void> {
+    try {
+      await this.deliver(event);
+      await this.outboxRepository.update(event.id, {
+        status: 'DISPATCHED',
+        dispatchedAt: new Date(),
+        lastError: null,
+      });
+    } catch (error) {
+      if (event.attempts >= this.MAX_ATTEMPTS) {
+        await this.outboxRepository.update(event.id, {
+          status: 'FAILED',
+          lastError: error.message,
+        });
+        this.logger.error(`[OUTBOX_DISPATCHER] Giving up on event: ${event.id}`, {
+          eventId: event.id,
+          type: event.type,
+          attempts: event.attempts,
+          stack: error.stack,
+        });
+        return;
+      }
+
+      const retryAt = new Date(Date.now() + this.backoffFor(event.attempts));
+      await this.outboxRepository.update(event.id, {
+        availableAt: retryAt,
+        lastError: error.message,
+      });
+      this.logger.error(`[OUTBOX_DISPATCHER] Failed to dispatch event: ${event.id}`, {
+        eventId: event.id,
+        type: event.type,
+        attempts: event.attempts,
+        retryAt: retryAt.toISOString(),
+        stack: error.stack,
+      });
+    }
+  }
+
+  private async deliver(event: OutboxEvent): Promise<void> {
+    const domainEvent = {
+      id: event.id,
+      type: event.type as DomainEventType,
+      payload: event.payload,
+      occurredAt: event.occurredAt,
+    } as DomainEvent;
+
+    for (const subscription of this.eventsService.subscribersFor(event.type)) {
+      try {
+        await subscription.handler(domainEvent);
+      } catch (error) {
+        error.message = `${subscription.name}: ${error.message}`;
+        throw error;
+      }
+    }
+  }
+
+  private backoffFor(attempts: number): number {
+    return Math.min(1000 * 2 ** attempts, this.MAX_BACKOFF_MS);
+  }
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BorrowingFineResponseDto {
+  @ApiProperty({ example: 1, description: 'ID of the borrowing' })
+  borrowingId: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the patron' })
+  patronId: number;
+
+  @ApiProperty({ example: 6, description: 'Days late (as of return, or today if still out)' })
+  daysLate: number;
+
+  @ApiProperty({ example: 25, description: 'Fine per day late, in cents' })
+  dailyRateCents: number;
+
+  @ApiProperty({ example: 1000, description: 'Maximum fine per loan, in cents' })
+  maxFineCents: number;
+
+  @ApiProperty({ example: 150, description: 'Fine accrued so far under the current rules' })
+  accruedCents: number;
+
+  @ApiProperty({ example: 150, description: 'Amount charged to the patron ledger' })
+  chargedCents: number;
+
+  @ApiProperty({ example: 0, description: 'Amount paid against this loan' })
+  paidCents: number;
+
+  @ApiProperty({ example: 0, description: 'Amount waived for this loan' })
+  waivedCents: number;
+
+  @ApiProperty({ example: 150, description: 'Charged minus paid and waived' })
+  outstandingCents: number;
+}
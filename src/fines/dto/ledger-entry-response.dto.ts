@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LEDGER_ENTRY_TYPES, LedgerEntryType } from '../entities/fine-ledger-entry.entity';
+
+export class LedgerEntryResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the ledger entry' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the patron' })
+  patronId: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the related borrowing', required: false })
+  borrowingId?: number;
+
+  @ApiProperty({ example: 'CHARGE', enum: LEDGER_ENTRY_TYPES, description: 'Type of entry' })
+  type: LedgerEntryType;
+
+  @ApiProperty({ example: 150, description: 'Amount in cents (always positive)' })
+  amountCents: number;
+
+  @ApiProperty({ example: '6 day(s) late', description: 'Note', required: false })
+  note?: string;
+
+  @ApiProperty({ description: 'When the entry was recorded' })
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LedgerEntryResponseDto } from './ledger-entry-response.dto';
+
+export class PatronAccountResponseDto {
+  @ApiProperty({ example: 1, description: 'ID of the patron' })
+  patronId: number;
+
+  @ApiProperty({ example: 150, description: 'Outstanding balance in cents' })
+  balanceCents: number;
+
+  @ApiProperty({ type: [LedgerEntryResponseDto], description: 'Ledger entries, oldest first' })
+  entries: LedgerEntryResponseDto[];
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class RecordPaymentDto {
+  @ApiProperty({
+    description: 'Amount paid, in cents',
+    example: 250,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  amountCents: number;
+
+  @ApiProperty({
+    description: 'Borrowing the payment is applied to (applies to the whole account when omitted)',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  borrowingId?: number;
+
+  @ApiProperty({
+    description: 'Free-text note, e.g. payment method or receipt number',
+    example: 'Cash at front desk',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  note?: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class RecordWaiverDto {
+  @ApiProperty({
+    description: 'Amount waived, in cents',
+    example: 250,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  amountCents: number;
+
+  @ApiProperty({
+    description: 'Borrowing the waiver is applied to (applies to the whole account when omitted)',
+    example: 1,
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  borrowingId?: number;
+
+  @ApiProperty({
+    description: 'Reason for waiving the fine',
+    example: 'Book drop was closed over the holiday',
+  })
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { Patron } from '../../patrons/entities/patron.entity';
+import { Borrowing } from '../../borrowings/entities/borrowing.entity';
+
+export const LEDGER_ENTRY_TYPES = ['CHARGE', 'PAYMENT', 'WAIVER'] as const;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+/**
+ * Append-only patron account ledger. Amounts are always positive cents;
+ * the entry type decides whether it adds to (CHARGE) or reduces
+ * (PAYMENT, WAIVER) the balance.
+ */
+@Entity('fine_ledger_entries')
+@Index(['patronId', 'createdAt'])
+export class FineLedgerEntry {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  patronId: number;
+
+  @ManyToOne(() => Patron)
+  @JoinColumn({ name: 'patronId' })
+  patron: Patron;
+
+  @Index()
+  @Column({ nullable: true })
+  borrowingId?: number;
+
+  @ManyToOne(() => Borrowing)
+  @JoinColumn({ name: 'borrowingId' })
+  borrowing?: Borrowing;
+
+  @Column({
+    type: 'enum',
+    enum: LEDGER_ENTRY_TYPES,
+  })
+  type: LedgerEntryType;
+
+  @Column({ type: 'int' })
+  amountCents: number;
+
+  @Column({ type: 'text', nullable: true })
+  note?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
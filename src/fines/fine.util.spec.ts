@@ -0,0 +1,22 @@
+import { accruedFineCents, daysLate } from './fine.util';
+
+describe('fine.util', () => {
+  const dueDate = new Date('2024-03-01T00:00:00Z');
+
+  it('counts whole days past the due date, never below zero', () => {
+    expect(daysLate(dueDate, null, new Date('2024-02-20T00:00:00Z'))).toBe(0);
+    expect(daysLate(dueDate, null, new Date('2024-03-01T23:00:00Z'))).toBe(0);
+    expect(daysLate(dueDate, null, new Date('2024-03-05T12:00:00Z'))).toBe(4);
+  });
+
+  it('stops counting at the return date and accepts dates as strings', () => {
+    expect(daysLate('2024-03-01', '2024-03-04', new Date('2024-04-01T00:00:00Z'))).toBe(3);
+  });
+
+  it('accrues the daily rate up to the cap', () => {
+    expect(accruedFineCents(0, 25, 1000)).toBe(0);
+    expect(accruedFineCents(4, 25, 1000)).toBe(100);
+    expect(accruedFineCents(40, 25, 1000)).toBe(1000);
+    expect(accruedFineCents(400, 25, 1000)).toBe(1000);
+  });
+});
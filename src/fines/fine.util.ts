@@ -0,0 +1,25 @@
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Whole days a loan is past its due date: up to the return for a returned
+ * loan, up to `asOf` otherwise. Never negative.
+ */
+export function daysLate(
+  dueDate: Date | string,
+  returnedDate: Date | string | null,
+  asOf: Date,
+): number {
+  // TypeORM may hand dates back as strings
+  const due = new Date(dueDate);
+  const end = returnedDate ? new Date(returnedDate) : asOf;
+  return Math.max(0, Math.floor((end.getTime() - due.getTime()) / MS_PER_DAY));
+}
+
+// The overdue sweep computes the same formula in SQL
+export function accruedFineCents(
+  daysLate: number,
+  dailyRateCents: number,
+  maxFineCents: number,
+): number {
+  return Math.min(daysLate * dailyRateCents, maxFineCents);
+}
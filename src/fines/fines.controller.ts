@@ -0,0 +1,152 @@
+import { Controller, Get, Post, Body, Param, Inject } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { FinesService } from './fines.service';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { RecordWaiverDto } from './dto/record-waiver.dto';
+import { LedgerEntryResponseDto } from './dto/ledger-entry-response.dto';
+import { PatronAccountResponseDto } from './dto/patron-account-response.dto';
+import { BorrowingFineResponseDto } from './dto/borrowing-fine-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser, assertPatronAccess } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('fines')
+@ApiBearerAuth()
+@Controller()
+export class FinesController {
+  constructor(
+    private readonly finesService: FinesService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[FINES_CONTROLLER] FinesController initialized');
+  }
+
+  @Get('borrowings/:id/fine')
+  @ApiOperation({ summary: 'Get the fine accrued, charged and outstanding for a borrowing' })
+  @ApiParam({ name: 'id', description: 'Borrowing ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Fine breakdown for the borrowing.',
+    type: BorrowingFineResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own fines.' })
+  @ApiResponse({ status: 404, description: 'Borrowing not found.' })
+  async getBorrowingFine(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[FINES_CONTROLLER] GET /borrowings/${id}/fine - Fetching fine`, {
+      borrowingId: id,
+    });
+    try {
+      const fine = await this.finesService.getBorrowingFine(+id);
+      assertPatronAccess(user, fine.patronId);
+      return fine;
+    } catch (error) {
+      this.logger.error(`[FINES_CONTROLLER] Failed to fetch fine for borrowing: ${id}`, {
+        borrowingId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get('patrons/:id/account')
+  @ApiOperation({ summary: 'Get a patron account balance and ledger' })
+  @ApiParam({ name: 'id', description: 'Patron ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The patron balance and ledger entries, oldest first.',
+    type: PatronAccountResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own account.' })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async getAccount(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[FINES_CONTROLLER] GET /patrons/${id}/account - Fetching account`, {
+      patronId: id,
+    });
+    try {
+      assertPatronAccess(user, +id);
+      return await this.finesService.getAccount(+id);
+    } catch (error) {
+      this.logger.error(`[FINES_CONTROLLER] Failed to fetch account for patron: ${id}`, {
+        patronId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Post('patrons/:id/account/payments')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiOperation({ summary: 'Record a payment against a patron balance' })
+  @ApiParam({ name: 'id', description: 'Patron ID' })
+  @ApiBody({ type: RecordPaymentDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The payment has been recorded.',
+    type: LedgerEntryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Amount exceeds the outstanding balance or borrowing mismatch.',
+  })
+  @ApiResponse({ status: 404, description: 'Patron or borrowing not found.' })
+  async recordPayment(@Param('id') id: string, @Body() recordPaymentDto: RecordPaymentDto) {
+    this.logger.info(
+      `[FINES_CONTROLLER] POST /patrons/${id}/account/payments - Recording payment`,
+      {
+        patronId: id,
+        amountCents: recordPaymentDto.amountCents,
+      },
+    );
+    try {
+      return await this.finesService.recordPayment(+id, recordPaymentDto);
+    } catch (error) {
+      this.logger.error(`[FINES_CONTROLLER] Failed to record payment for patron: ${id}`, {
+        patronId: id,
+        recordPaymentDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Post('patrons/:id/account/waivers')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiOperation({ summary: 'Waive part or all of a patron balance' })
+  @ApiParam({ name: 'id', description: 'Patron ID' })
+  @ApiBody({ type: RecordWaiverDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The waiver has been recorded.',
+    type: LedgerEntryResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Amount exceeds the outstanding balance or borrowing mismatch.',
+  })
+  @ApiResponse({ status: 404, description: 'Patron or borrowing not found.' })
+  async recordWaiver(@Param('id') id: string, @Body() recordWaiverDto: RecordWaiverDto) {
+    this.logger.info(`[FINES_CONTROLLER] POST /patrons/${id}/account/waivers - Recording waiver`, {
+      patronId: id,
+      amountCents: recordWaiverDto.amountCents,
+    });
+    try {
+      return await this.finesService.recordWaiver(+id, recordWaiverDto);
+    } catch (error) {
+      this.logger.error(`[FINES_CONTROLLER] Failed to record waiver for patron: ${id}`, {
+        patronId: id,
+        recordWaiverDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
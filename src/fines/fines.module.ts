@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { FinesService } from './fines.service';
+import { FinesController } from './fines.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { EventsModule } from '../events/events.module';
+import { PatronsModule } from '../patrons/patrons.module';
+import { FineLedgerEntry } from './entities/fine-ledger-entry.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([FineLedgerEntry, Borrowing]),
+    PatronsModule,
+    EventsModule,
+    LoggerModule,
+  ],
+  controllers: [FinesController],
+  providers: [FinesService],
+  exports: [FinesService],
+})
+export class FinesModule {}
@@ -0,0 +1,323 @@
+import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { FineLedgerEntry, LedgerEntryType } from './entities/fine-ledger-entry.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { Patron } from '../patrons/entities/patron.entity';
+import { PatronsService } from '../patrons/patrons.service';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { RecordWaiverDto } from './dto/record-waiver.dto';
+import { EventsService } from '../events/events.service';
+import { accruedFineCents, daysLate } from './fine.util';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class FinesService {
+  private readonly DAILY_RATE_CENTS = parseInt(process.env.FINE_DAILY_RATE_CENTS || '25', 10);
+  private readonly MAX_FINE_CENTS = parseInt(process.env.FINE_MAX_CENTS || '1000', 10);
+
+  constructor(
+    @InjectRepository(FineLedgerEntry)
+    private readonly ledgerRepository: Repository<FineLedgerEntry>,
+    @InjectRepository(Borrowing)
+    private readonly borrowingRepository: Repository<Borrowing>,
+    private readonly patronsService: PatronsService,
+    private readonly eventsService: EventsService,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[FINES_SERVICE] FinesService initialized');
+  }
+
+  /**
+   * Charges the patron whatever the loan has accrued beyond what was already
+   * charged for it. Called inside the return transaction when a loan comes
+   * back late, so the ledger ends up with the full (capped) fine. The caller
+   * must hold the borrowing's row lock, as the overdue sweep takes it too;
+   * otherwise both could read the same charged total and both top it up.
+   */
+  async assessOverdueFine(
+    borrowing: Borrowing,
+    asOf: Date = new Date(),
+    manager?: EntityManager,
+  ): Promise<FineLedgerEntry | null> {
+    const daysLate = this.daysLate(borrowing, asOf);
+    const accruedCents = this.fineFor(daysLate);
+    const chargedCents = await this.sumFor(borrowing.id, 'CHARGE', manager);
+    const amountCents = accruedCents - chargedCents;
+
+    if (amountCents <= 0) {
+      return null;
+    }
+
+    const entry = await this.inTransaction(manager, async (manager) => {
+      const entry = await manager.save(
+        manager.create(FineLedgerEntry, {
+          patronId: borrowing.patronId,
+          borrowingId: borrowing.id,
+          type: 'CHARGE',
+          amountCents,
+          note: `${daysLate} day(s) late`,
+        }),
+      );
+      await this.eventsService.publish(
+        'FINE_ASSESSED',
+        {
+          ledgerEntryId: entry.id,
+          borrowingId: borrowing.id,
+          patronId: borrowing.patronId,
+          amountCents,
+        },
+        manager,
+      );
+      return entry;
+    });
+
+    this.logger.info('[FINES_SERVICE] Overdue fine assessed', {
+      borrowingId: borrowing.id,
+      patronId: borrowing.patronId,
+      daysLate,
+      amountCents,
+      totalChargedCents: chargedCents + amountCents,
+    });
+
+    return entry;
+  }
+
+  /**
+   * Set-based version of assessOverdueFine for every OVERDUE loan, used by the
+   * overdue sweep: one INSERT charges each loan the difference between its
+   * accrued fine (same formula as accruedFineCents) and what it has been charged so far.
+   */
+  async assessOverdueFines(asOf: Date = new Date()): Promise<FineLedgerEntry[]> {
+    const asOfDate = asOf.toISOString().slice(0, 10);
+    const entries = await this.dataSource.transaction(async (manager) => {
+      // Waits for late returns in progress, whose own top-up this INSERT then sees;
+      // loans they closed are no longer OVERDUE and drop out
+      await manager.query(
+        `SELECT "id" FROM "borrowings" WHERE "status" = 'OVERDUE' ORDER BY "id" FOR UPDATE`,
+      );
+      const entries: FineLedgerEntry[] = await manager.query(
+        `
+      INSERT INTO "fine_ledger_entries" ("patronId", "borrowingId", "type", "amountCents", "note")
+      SELECT due."patronId", due."id", 'CHARGE', due."accruedCents" - due."chargedCents",
+        due."daysLate" || ' day(s) late'
+      FROM (
+        SELECT b."id", b."patronId", $1::date - b."dueDate" AS "daysLate",
+          LEAST(($1::date - b."dueDate") * $2::int, $3::int) AS "accruedCents",
+          (
+            SELECT COALESCE(SUM(e."amountCents"), 0)
+            FROM "fine_ledger_entries" e
+            WHERE e."borrowingId" = b."id" AND e."type" = 'CHARGE'
+          ) AS "chargedCents"
+        FROM "borrowings" b
+        WHERE b."status" = 'OVERDUE'
+      ) due
+      WHERE due."accruedCents" > due."chargedCents"
+      RETURNING "id", "patronId", "borrowingId", "amountCents", "note"
+      `,
+        [asOfDate, this.DAILY_RATE_CENTS, this.MAX_FINE_CENTS],
+      );
+      await this.eventsService.publishMany(
+        'FINE_ASSESSED',
+        entries.map((entry) => ({
+          ledgerEntryId: entry.id,
+          borrowingId: entry.borrowingId,
+          patronId: entry.patronId,
+          amountCents: entry.amountCents,
+        })),
+        manager,
+      );
+      return entries;
+    });
+
+    for (const entry of entries) {
+      this.logger.info('[FINES_SERVICE] Overdue fine assessed', {
+        borrowingId: entry.borrowingId,
+        patronId: entry.patronId,
+        amountCents: entry.amountCents,
+        note: entry.note,
+      });
+    }
+    return entries;
+  }
+
+  async getBorrowingFine(borrowingId: number, manager?: EntityManager) {
+    this.logger.debug(`[FINES_SERVICE] Fetching fine for borrowing: ${borrowingId}`, {
+      borrowingId,
+    });
+    const borrowingRepository = manager
+      ? manager.getRepository(Borrowing)
+      : this.borrowingRepository;
+    const borrowing = await borrowingRepository.findOne({ where: { id: borrowingId } });
+    if (!borrowing) {
+      throw new NotFoundException(`Borrowing with ID ${borrowingId} not found`);
+    }
+
+    const daysLate = this.daysLate(borrowing, new Date());
+    const chargedCents = await this.sumFor(borrowingId, 'CHARGE', manager);
+    const paidCents = await this.sumFor(borrowingId, 'PAYMENT', manager);
+    const waivedCents = await this.sumFor(borrowingId, 'WAIVER', manager);
+
+    return {
+      borrowingId,
+      patronId: borrowing.patronId,
+      daysLate,
+      dailyRateCents: this.DAILY_RATE_CENTS,
+      maxFineCents: this.MAX_FINE_CENTS,
+      accruedCents: this.fineFor(daysLate),
+      chargedCents,
+      paidCents,
+      waivedCents,
+      outstandingCents: chargedCents - paidCents - waivedCents,
+    };
+  }
+
+  async getAccount(patronId: number) {
+    this.logger.debug(`[FINES_SERVICE] Fetching account for patron: ${patronId}`, { patronId });
+    await this.patronsService.findOne(patronId);
+    const entries = await this.ledgerRepository.find({
+      where: { patronId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    return {
+      patronId,
+      balanceCents: this.balanceOf(entries),
+      entries,
+    };
+  }
+
+  async recordPayment(patronId: number, dto: RecordPaymentDto): Promise<FineLedgerEntry> {
+    return this.recordCredit(patronId, 'PAYMENT', dto);
+  }
+
+  async recordWaiver(patronId: number, dto: RecordWaiverDto): Promise<FineLedgerEntry> {
+    return this.recordCredit(patronId, 'WAIVER', dto);
+  }
+
+  private async recordCredit(
+    patronId: number,
+    type: 'PAYMENT' | 'WAIVER',
+    dto: RecordPaymentDto | RecordWaiverDto,
+  ): Promise<FineLedgerEntry> {
+    this.logger.info(`[FINES_SERVICE] Recording ${type.toLowerCase()} for patron: ${patronId}`, {
+      patronId,
+      amountCents: dto.amountCents,
+      borrowingId: dto.borrowingId,
+    });
+
+    await this.patronsService.findOne(patronId);
+
+    return this.dataSource.transaction(async (manager) => {
+      // Credits for one patron queue up here, so each is checked against the balance
+      // the previous one left and concurrent payments cannot take it below zero
+      await manager
+        .getRepository(Patron)
+        .createQueryBuilder('patron')
+        .select('patron.id')
+        .where('patron.id = :patronId', { patronId })
+        .setLock('pessimistic_write')
+        .getOne();
+
+      let outstandingCents = await this.balanceFor(patronId, manager);
+
+      if (dto.borrowingId) {
+        const fine = await this.getBorrowingFine(dto.borrowingId, manager);
+        if (fine.patronId !== patronId) {
+          throw new BadRequestException(
+            `Borrowing ${dto.borrowingId} does not belong to patron ${patronId}`,
+          );
+        }
+        outstandingCents = Math.min(outstandingCents, fine.outstandingCents);
+      }
+
+      if (dto.amountCents > outstandingCents) {
+        this.logger.warn(`[FINES_SERVICE] ${type} exceeds outstanding balance`, {
+          patronId,
+          amountCents: dto.amountCents,
+          outstandingCents,
+        });
+        throw new BadRequestException(
+          `Amount ${dto.amountCents} exceeds the outstanding balance of ${outstandingCents} cents`,
+        );
+      }
+
+      const entry = await manager.save(
+        manager.create(FineLedgerEntry, {
+          patronId,
+          borrowingId: dto.borrowingId,
+          type,
+          amountCents: dto.amountCents,
+          note: dto.note,
+        }),
+      );
+      await this.eventsService.publish(
+        type === 'PAYMENT' ? 'FINE_PAID' : 'FINE_WAIVED',
+        {
+          ledgerEntryId: entry.id,
+          patronId,
+          borrowingId: dto.borrowingId,
+          amountCents: dto.amountCents,
+        },
+        manager,
+      );
+      return entry;
+    });
+  }
+
+  // Joins the caller's transaction when given one, otherwise starts its own
+  private inTransaction<T>(
+    manager: EntityManager | undefined,
+    work: (manager: EntityManager) => Promise<T>,
+  ): Promise<T> {
+    return manager ? work(manager) : this.dataSource.transaction(work);
+  }
+
+  private repositoryFor(manager?: EntityManager): Repository<FineLedgerEntry> {
+    return manager ? manager.getRepository(FineLedgerEntry) : this.ledgerRepository;
+  }
+
+  private daysLate(borrowing: Borrowing, asOf: Date): number {
+    return daysLate(borrowing.dueDate, borrowing.returnedDate, asOf);
+  }
+
+  private fineFor(daysLate: number): number {
+    return accruedFineCents(daysLate, this.DAILY_RATE_CENTS, this.MAX_FINE_CENTS);
+  }
+
+  private balanceOf(entries: FineLedgerEntry[]): number {
+    return entries.reduce(
+      (balance, entry) =>
+        entry.type === 'CHARGE' ? balance + entry.amountCents : balance - entry.amountCents,
+      0,
+    );
+  }
+
+  // Same sum as balanceOf, computed in the database
+  private async balanceFor(patronId: number, manager?: EntityManager): Promise<number> {
+    const { balance } = await this.repositoryFor(manager)
+      .createQueryBuilder('entry')
+      .select(
+        `COALESCE(SUM(CASE WHEN entry."type" = 'CHARGE' THEN entry."amountCents" ELSE -entry."amountCents" END), 0)`,
+        'balance',
+      )
+      .where('entry.patronId = :patronId', { patronId })
+      .getRawOne();
+    return Number(balance);
+  }
+
+  private async sumFor(
+    borrowingId: number,
+    type: LedgerEntryType,
+    manager?: EntityManager,
+  ): Promise<number> {
+    const { total } = await this.repositoryFor(manager)
+      .createQueryBuilder('entry')
+      .select('COALESCE(SUM(entry.amountCents), 0)', 'total')
+      .where('entry.borrowingId = :borrowingId', { borrowingId })
+      .andWhere('entry.type = :type', { type })
+      .getRawOne();
+    return Number(total);
+  }
+}
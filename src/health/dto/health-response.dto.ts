@@ -0,0 +1,66 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export const HEALTH_CHECK_STATUSES = ['up', 'warn', 'down'] as const;
+export type HealthCheckStatus = (typeof HEALTH_CHECK_STATUSES)[number];
+
+// down checks make the instance not ready; warn checks only degrade it
+export const READINESS_STATUSES = ['ok', 'degraded', 'error'] as const;
+export type ReadinessStatus = (typeof READINESS_STATUSES)[number];
+
+export class HealthCheckDto {
+  @ApiProperty({ example: 'up', enum: HEALTH_CHECK_STATUSES, description: 'Outcome of the check' })
+  status: HealthCheckStatus;
+
+  @ApiProperty({ example: 3, description: 'Time the check took, in milliseconds' })
+  latencyMs: number;
+
+  @ApiProperty({
+    example: 'Timed out after 2000ms',
+    description: 'Why the check is not up',
+    required: false,
+  })
+  error?: string;
+
+  @ApiProperty({
+    example: { pending: [] },
+    description: 'Check-specific facts, e.g. pending migrations or the last job run',
+    required: false,
+  })
+  details?: Record<string, unknown>;
+}
+
+export class ReadinessChecksDto {
+  @ApiProperty({ type: HealthCheckDto, description: 'Round trip to Postgres' })
+  database: HealthCheckDto;
+
+  @ApiProperty({ type: HealthCheckDto, description: 'Down while migrations are pending' })
+  migrations: HealthCheckDto;
+
+  @ApiProperty({
+    type: HealthCheckDto,
+    description: 'Warns when the overdue-sweep job has not succeeded recently',
+  })
+  overdueSweep: HealthCheckDto;
+}
+
+export class ReadinessResponseDto {
+  @ApiProperty({ example: 'ok', enum: READINESS_STATUSES, description: 'Overall readiness' })
+  status: ReadinessStatus;
+
+  @ApiProperty({ example: '2024-03-01T12:00:00.000Z', description: 'When the checks ran' })
+  timestamp: string;
+
+  @ApiProperty({ type: ReadinessChecksDto })
+  checks: ReadinessChecksDto;
+}
+
+export class LivenessResponseDto {
+  @ApiProperty({ example: 'ok', description: 'Always ok while the process can serve requests' })
+  status: 'ok';
+
+  @ApiProperty({ example: '2024-03-01T12:00:00.000Z', description: 'Server time' })
+  timestamp: string;
+
+  @ApiProperty({ example: 3600, description: 'Seconds since the process started' })
+  uptimeSeconds: number;
+}
@@ -0,0 +1,51 @@
+import { Controller, Get, Inject, ServiceUnavailableException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { HealthService } from './health.service';
+import { LivenessResponseDto, ReadinessResponseDto } from './dto/health-response.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Logger } from 'common-sense-logger';
+
+// Probed by Docker and orchestrators, which do not authenticate
+@ApiTags('health')
+@Public()
+@Controller('health')
+export class HealthController {
+  constructor(
+    private readonly healthService: HealthService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[HEALTH_CONTROLLER] HealthController initialized');
+  }
+
+  @Get('live')
+  @ApiOperation({ summary: 'Liveness probe: the process is up and serving requests' })
+  @ApiResponse({ status: 200, description: 'The process is alive.', type: LivenessResponseDto })
+  live() {
+    return this.healthService.liveness();
+  }
+
+  @Get('ready')
+  @ApiOperation({
+    summary: 'Readiness probe: database, migrations and the overdue-sweep job',
+    description:
+      'Returns 503 when a check is down. A stale overdue-sweep only marks the report degraded.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Ready; status is ok or degraded.',
+    type: ReadinessResponseDto,
+  })
+  @ApiResponse({
+    status: 503,
+    description: 'Not ready; the body is the same report with status error.',
+    type: ReadinessResponseDto,
+  })
+  async ready() {
+    const report = await this.healthService.readiness();
+    if (report.status === 'error') {
+      throw new ServiceUnavailableException(report);
+    }
+    return report;
+  }
+}
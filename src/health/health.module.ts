@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { JobsModule } from '../jobs/jobs.module';
+import { LoggerModule } from '../common/logger/logger.module';
+
+@Module({
+  imports: [JobsModule, LoggerModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,137 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { JobsService } from '../jobs/jobs.service';
+import { OVERDUE_SWEEP_JOB } from '../borrowings/borrowings.service';
+import {
+  HealthCheckDto,
+  LivenessResponseDto,
+  ReadinessChecksDto,
+  ReadinessResponseDto,
+} from './dto/health-response.dto';
+import { Logger } from 'common-sense-logger';
+
+type CheckOutcome = Omit<HealthCheckDto, 'latencyMs'>;
+
+@Injectable()
+export class HealthService {
+  private readonly CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10);
+  private readonly OVERDUE_SWEEP_MAX_AGE_MINUTES = parseInt(
+    process.env.HEALTH_OVERDUE_SWEEP_MAX_AGE_MINUTES || '180',
+    10,
+  );
+
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly jobsService: JobsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[HEALTH_SERVICE] HealthService initialized');
+  }
+
+  // Touches nothing outside the process, so a slow database never fails it
+  liveness(): LivenessResponseDto {
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+    };
+  }
+
+  async readiness(): Promise<ReadinessResponseDto> {
+    const [database, migrations, overdueSweep] = await Promise.all([
+      this.runCheck(() => this.checkDatabase()),
+      this.runCheck(() => this.checkMigrations()),
+      this.runCheck(() => this.checkOverdueSweep()),
+    ]);
+    const checks: ReadinessChecksDto = { database, migrations, overdueSweep };
+
+    const statuses = Object.values(checks).map((check) => check.status);
+    const status = statuses.includes('down')
+      ? 'error'
+      : statuses.includes('warn')
+        ? 'degraded'
+        : 'ok';
+    if (status !== 'ok') {
+      this.logger.warn(`[HEALTH_SERVICE] Readiness is ${status}`, { checks });
+    }
+    return { status, timestamp: new Date().toISOString(), checks };
+  }
+
+  // A check that throws or outlasts CHECK_TIMEOUT_MS is reported down
+  private async runCheck(check: () => Promise<CheckOutcome>): Promise<HealthCheckDto> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.CHECK_TIMEOUT_MS}ms`)),
+        this.CHECK_TIMEOUT_MS,
+      );
+    });
+    try {
+      const outcome = await Promise.race([check(), timeout]);
+      return { ...outcome, latencyMs: Date.now() - startedAt };
+    } catch (error) {
+      return { status: 'down', latencyMs: Date.now() - startedAt, error: error.message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async checkDatabase(): Promise<CheckOutcome> {
+    if (!this.dataSource.isInitialized) {
+      return { status: 'down', error: 'The database connection is not initialized' };
+    }
+    await this.dataSource.query('SELECT 1');
+    return { status: 'up' };
+  }
+
+  /**
+   * Compares the migrations bundled with this build against the migrations
+   * table, without DataSource.showMigrations() and the log lines it writes.
+   */
+  private async checkMigrations(): Promise<CheckOutcome> {
+    const table = this.dataSource.options.migrationsTableName || 'migrations';
+    const executed: { name: string }[] = await this.dataSource.query(
+      `SELECT "name" FROM "${table}"`,
+    );
+    const executedNames = new Set(executed.map((migration) => migration.name));
+    const pending = this.dataSource.migrations
+      .map((migration) => migration.name || migration.constructor.name)
+      .filter((name) => !executedNames.has(name));
+
+    return pending.length > 0
+      ? {
+          status: 'down',
+          error: `${pending.length} migration(s) pending`,
+          details: { executed: executedNames.size, pending },
+        }
+      : { status: 'up', details: { executed: executedNames.size, pending } };
+  }
+
+  private async checkOverdueSweep(): Promise<CheckOutcome> {
+    const lastRun = await this.jobsService.findLastRun(OVERDUE_SWEEP_JOB);
+    const lastSuccess =
+      lastRun?.status === 'SUCCEEDED'
+        ? lastRun
+        : await this.jobsService.findLastRun(OVERDUE_SWEEP_JOB, 'SUCCEEDED');
+    const details = {
+      lastRunStatus: lastRun?.status ?? null,
+      lastSucceededAt: lastSuccess?.finishedAt ?? null,
+      maxAgeMinutes: this.OVERDUE_SWEEP_MAX_AGE_MINUTES,
+    };
+
+    if (!lastSuccess) {
+      return { status: 'warn', error: `${OVERDUE_SWEEP_JOB} has not succeeded yet`, details };
+    }
+    const ageMinutes = Math.floor((Date.now() - lastSuccess.finishedAt.getTime()) / 60_000);
+    if (ageMinutes > this.OVERDUE_SWEEP_MAX_AGE_MINUTES) {
+      return {
+        status: 'warn',
+        error: `${OVERDUE_SWEEP_JOB} last succeeded ${ageMinutes} minutes ago`,
+        details,
+      };
+    }
+    return { status: 'up', details };
+  }
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsNumber, Min } from 'class-validator';
+
+export class CreateHoldDto {
+  @ApiProperty({
+    description: 'ID of the patron placing the hold',
+    example: 1,
+  })
+  @IsNumber()
+  @IsNotEmpty()
+  @Min(1)
+  patronId: number;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { HOLD_STATUSES, HoldStatus } from '../entities/hold.entity';
+
+export class HoldResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the hold' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the requested book' })
+  bookId: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the patron who placed the hold' })
+  patronId: number;
+
+  @ApiProperty({
+    example: 3,
+    description: 'Copy waiting on the hold shelf (READY holds only)',
+    required: false,
+  })
+  copyId?: number;
+
+  @ApiProperty({
+    example: 'WAITING',
+    enum: HOLD_STATUSES,
+    description: 'Status of the hold',
+  })
+  status: HoldStatus;
+
+  @ApiProperty({
+    example: 2,
+    description: 'Position in the queue (WAITING holds only)',
+    required: false,
+  })
+  queuePosition?: number;
+
+  @ApiProperty({ description: 'When the copy was put on the hold shelf', required: false })
+  readyAt?: Date;
+
+  @ApiProperty({
+    description: 'When the hold lapses (end of the pickup window once READY)',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the hold was fulfilled, cancelled or expired',
+    required: false,
+  })
+  closedAt?: Date;
+
+  @ApiProperty({ description: 'Date when the hold was placed' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Date when the hold was last updated' })
+  updatedAt: Date;
+}
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { Book } from '../../books/entities/book.entity';
+import { Patron } from '../../patrons/entities/patron.entity';
+import { BookCopy } from '../../copies/entities/book-copy.entity';
+
+export const HOLD_STATUSES = ['WAITING', 'READY', 'FULFILLED', 'CANCELLED', 'EXPIRED'] as const;
+export type HoldStatus = (typeof HOLD_STATUSES)[number];
+
+@Entity('holds')
+@Index(['bookId', 'status', 'createdAt'])
+export class Hold {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  bookId: number;
+
+  @ManyToOne(() => Book, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'bookId' })
+  book: Book;
+
+  @Column()
+  patronId: number;
+
+  @ManyToOne(() => Patron)
+  @JoinColumn({ name: 'patronId' })
+  patron: Patron;
+
+  // Copy set aside on the hold shelf once the hold is READY
+  @Column({ nullable: true })
+  copyId?: number;
+
+  @ManyToOne(() => BookCopy)
+  @JoinColumn({ name: 'copyId' })
+  copy?: BookCopy;
+
+  @Column({
+    type: 'enum',
+    enum: HOLD_STATUSES,
+    default: 'WAITING',
+  })
+  status: HoldStatus;
+
+  @Column({ type: 'timestamp', nullable: true })
+  readyAt?: Date;
+
+  // WAITING: when the request lapses; READY: end of the pickup window
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  closedAt?: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  // Position in the FIFO queue for WAITING holds; computed, not stored
+  queuePosition?: number;
+}
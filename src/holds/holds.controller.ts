@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Patch,
+  Query,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { HoldsService } from './holds.service';
+import { CreateHoldDto } from './dto/create-hold.dto';
+import { HoldResponseDto } from './dto/hold-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser, assertPatronAccess, isStaff } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('holds')
+@ApiBearerAuth()
+@Controller()
+export class HoldsController {
+  constructor(
+    private readonly holdsService: HoldsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[HOLDS_CONTROLLER] HoldsController initialized');
+  }
+
+  @Post('books/:bookId/holds')
+  @ApiOperation({ summary: 'Place a hold on a checked-out book' })
+  @ApiParam({ name: 'bookId', type: Number, description: 'Book ID' })
+  @ApiBody({ type: CreateHoldDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The hold has been placed and queued.',
+    type: HoldResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Copies available, duplicate hold, or patron not active.',
+  })
+  @ApiResponse({ status: 403, description: 'Patrons can only place holds for themselves.' })
+  @ApiResponse({ status: 404, description: 'Book or patron not found.' })
+  async place(
+    @Param('bookId') bookId: string,
+    @Body() createHoldDto: CreateHoldDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    this.logger.info(`[HOLDS_CONTROLLER] POST /books/${bookId}/holds - Placing hold`, {
+      bookId,
+      patronId: createHoldDto.patronId,
+    });
+    try {
+      assertPatronAccess(user, createHoldDto.patronId);
+      const hold = await this.holdsService.place(+bookId, createHoldDto);
+      this.logger.info('[HOLDS_CONTROLLER] Hold placement successful', {
+        holdId: hold.id,
+        queuePosition: hold.queuePosition,
+      });
+      return hold;
+    } catch (error) {
+      this.logger.error(`[HOLDS_CONTROLLER] Failed to place hold on book ${bookId}`, {
+        bookId,
+        createHoldDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get('books/:bookId/holds')
+  @Roles('ADMIN', 'LIBRARIAN')
+  @ApiOperation({ summary: 'Get the active hold queue for a book' })
+  @ApiParam({ name: 'bookId', type: Number, description: 'Book ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'READY holds followed by WAITING holds in queue order',
+    type: [HoldResponseDto],
+  })
+  @ApiResponse({ status: 404, description: 'Book not found.' })
+  async findQueue(@Param('bookId') bookId: string) {
+    this.logger.debug(`[HOLDS_CONTROLLER] GET /books/${bookId}/holds - Fetching hold queue`, {
+      bookId,
+    });
+    return this.holdsService.findQueue(+bookId);
+  }
+
+  @Get('holds')
+  @ApiOperation({ summary: 'Get the holds of a patron' })
+  @ApiQuery({
+    name: 'patronId',
+    required: false,
+    type: Number,
+    description: 'Patron ID (required for staff; patrons always see their own holds)',
+  })
+  @ApiResponse({ status: 200, description: 'Holds of the patron', type: [HoldResponseDto] })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own holds.' })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async findByPatron(@CurrentUser() user: AuthUser, @Query('patronId') patronId?: string) {
+    if (!patronId && !isStaff(user)) {
+      patronId = String(user.patronId);
+    }
+    if (!patronId) {
+      throw new BadRequestException('patronId query parameter is required');
+    }
+    this.logger.debug('[HOLDS_CONTROLLER] GET /holds - Fetching holds for patron', {
+      patronId,
+    });
+    assertPatronAccess(user, Number(patronId));
+    return this.holdsService.findByPatron(Number(patronId));
+  }
+
+  @Get('holds/:id')
+  @ApiOperation({ summary: 'Get a hold by ID' })
+  @ApiParam({ name: 'id', type: Number, description: 'Hold ID' })
+  @ApiResponse({ status: 200, description: 'The hold details', type: HoldResponseDto })
+  @ApiResponse({ status: 403, description: 'Patrons can only see their own holds.' })
+  @ApiResponse({ status: 404, description: 'Hold not found.' })
+  async findOne(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.debug(`[HOLDS_CONTROLLER] GET /holds/${id} - Fetching hold`, { holdId: id });
+    const hold = await this.holdsService.findOne(+id);
+    assertPatronAccess(user, hold.patronId);
+    return hold;
+  }
+
+  @Patch('holds/:id/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a hold' })
+  @ApiParam({ name: 'id', type: Number, description: 'Hold ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The hold has been cancelled.',
+    type: HoldResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Hold is no longer active.' })
+  @ApiResponse({ status: 403, description: 'Patrons can only cancel their own holds.' })
+  @ApiResponse({ status: 404, description: 'Hold not found.' })
+  async cancel(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[HOLDS_CONTROLLER] PATCH /holds/${id}/cancel - Cancelling hold`, {
+      holdId: id,
+    });
+    try {
+      const hold = await this.holdsService.findOne(+id);
+      assertPatronAccess(user, hold.patronId);
+      return await this.holdsService.cancel(+id);
+    } catch (error) {
+      this.logger.error(`[HOLDS_CONTROLLER] Failed to cancel hold ${id}`, {
+        holdId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
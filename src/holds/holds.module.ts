@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HoldsService } from './holds.service';
+import { HoldsController } from './holds.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { PatronsModule } from '../patrons/patrons.module';
+import { CopiesModule } from '../copies/copies.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { EventsModule } from '../events/events.module';
+import { Hold } from './entities/hold.entity';
+import { Book } from '../books/entities/book.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Hold, Book, Borrowing]),
+    PatronsModule,
+    CopiesModule,
+    JobsModule,
+    EventsModule,
+    LoggerModule,
+  ],
+  controllers: [HoldsController],
+  providers: [HoldsService],
+  exports: [HoldsService],
+})
+export class HoldsModule {}
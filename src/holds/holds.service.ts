@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Inject,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, In, LessThan, Repository } from 'typeorm';
+import { Hold } from './entities/hold.entity';
+import { Book } from '../books/entities/book.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { BookCopy } from '../copies/entities/book-copy.entity';
+import { CreateHoldDto } from './dto/create-hold.dto';
+import { PatronsService } from '../patrons/patrons.service';
+import { CopiesService } from '../copies/copies.service';
+import { JobsService } from '../jobs/jobs.service';
+import { lockRow } from '../common/lock.util';
+import { EventsService } from '../events/events.service';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class HoldsService implements OnModuleInit {
+  private readonly PICKUP_WINDOW_DAYS = parseInt(process.env.HOLD_PICKUP_DAYS || '7', 10);
+  private readonly QUEUE_EXPIRY_DAYS = parseInt(process.env.HOLD_QUEUE_DAYS || '90', 10);
+  private readonly EXPIRY_CRON = process.env.HOLD_EXPIRY_CRON || '15 * * * *';
+
+  constructor(
+    @InjectRepository(Hold)
+    private readonly holdRepository: Repository<Hold>,
+    @InjectRepository(Book)
+    private readonly bookRepository: Repository<Book>,
+    @InjectRepository(Borrowing)
+    private readonly borrowingRepository: Repository<Borrowing>,
+    private readonly patronsService: PatronsService,
+    private readonly copiesService: CopiesService,
+    private readonly jobsService: JobsService,
+    private readonly eventsService: EventsService,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[HOLDS_SERVICE] HoldsService initialized');
+  }
+
+  onModuleInit(): void {
+    this.jobsService.register({
+      name: 'hold-expiry',
+      cron: this.EXPIRY_CRON,
+      run: async () => ({ expiredCount: await this.expireHolds() }),
+    });
+  }
+
+  async place(bookId: number, createHoldDto: CreateHoldDto): Promise<Hold> {
+    const { patronId } = createHoldDto;
+    this.logger.info('[HOLDS_SERVICE] Processing hold request', { bookId, patronId });
+
+    const book = await this.bookRepository.findOne({ where: { id: bookId } });
+    if (!book) {
+      this.logger.warn(`[HOLDS_SERVICE] Book not found for hold: ${bookId}`, { bookId });
+      throw new NotFoundException(`Book with ID ${bookId} not found`);
+    }
+    if (book.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Book "${book.title}" is ${book.status} and cannot be placed on hold`,
+      );
+    }
+
+    const patron = await this.patronsService.findOne(patronId);
+    if (patron.status !== 'ACTIVE') {
+      throw new BadRequestException(
+        `Patron ${patron.cardNumber} cannot place holds while ${patron.status}`,
+      );
+    }
+
+    if (book.availableCopies > 0) {
+      this.logger.warn('[HOLDS_SERVICE] Hold requested for book with available copies', {
+        bookId,
+        patronId,
+        availableCopies: book.availableCopies,
+      });
+      throw new BadRequestException(
+        `Book "${book.title}" has ${book.availableCopies} available copy(ies); borrow it directly instead`,
+      );
+    }
+
+    const existingHold = await this.holdRepository.findOne({
+      where: { bookId, patronId, status: In(['WAITING', 'READY']) },
+    });
+    if (existingHold) {
+      throw new BadRequestException(
+        `Patron ${patron.cardNumber} already has an active hold (ID ${existingHold.id}) on this book`,
+      );
+    }
+
+    const activeLoans = await this.borrowingRepository.count({
+      where: { bookId, patronId, status: In(['BORROWED', 'OVERDUE']) },
+    });
+    if (activeLoans > 0) {
+      throw new BadRequestException(
+        `Patron ${patron.cardNumber} already has this book checked out`,
+      );
+    }
+
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + this.QUEUE_EXPIRY_DAYS);
+
+    const hold = await this.dataSource.transaction(async (manager) => {
+      const hold = await manager.save(
+        manager.create(Hold, { bookId, patronId, status: 'WAITING', expiresAt }),
+      );
+      hold.queuePosition = await this.queuePositionOf(hold);
+      await this.eventsService.publish(
+        'HOLD_PLACED',
+        { holdId: hold.id, bookId, patronId, queuePosition: hold.queuePosition },
+        manager,
+      );
+      return hold;
+    });
+
+    this.logger.info('[HOLDS_SERVICE] Hold placed successfully', {
+      holdId: hold.id,
+      bookId,
+      patronId,
+      queuePosition: hold.queuePosition,
+    });
+
+    return hold;
+  }
+
+  async findOne(id: number): Promise<Hold> {
+    this.logger.debug(`[HOLDS_SERVICE] Fetching hold with ID: ${id}`, { holdId: id });
+    const hold = await this.holdRepository.findOne({ where: { id } });
+    if (!hold) {
+      this.logger.warn(`[HOLDS_SERVICE] Hold not found: ${id}`, { holdId: id });
+      throw new NotFoundException(`Hold with ID ${id} not found`);
+    }
+    if (hold.status === 'WAITING') {
+      hold.queuePosition = await this.queuePositionOf(hold);
+    }
+    return hold;
+  }
+
+  /**
+   * Active holds for a book: READY holds first, then the WAITING queue in FIFO order.
+   */
+  async findQueue(bookId: number): Promise<Hold[]> {
+    this.logger.debug(`[HOLDS_SERVICE] Fetching hold queue for book: ${bookId}`, { bookId });
+    const exists = await this.bookRepository.exists({ where: { id: bookId } });
+    if (!exists) {
+      throw new NotFoundException(`Book with ID ${bookId} not found`);
+    }
+
+    const ready = await this.holdRepository.find({
+      where: { bookId, status: 'READY' },
+      order: { readyAt: 'ASC', id: 'ASC' },
+    });
+    const waiting = await this.holdRepository.find({
+      where: { bookId, status: 'WAITING' },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+    waiting.forEach((hold, index) => (hold.queuePosition = index + 1));
+
+    return [...ready, ...waiting];
+  }
+
+  async findByPatron(patronId: number): Promise<Hold[]> {
+    this.logger.debug(`[HOLDS_SERVICE] Fetching holds for patron: ${patronId}`, { patronId });
+    await this.patronsService.findOne(patronId);
+    const holds = await this.holdRepository.find({
+      where: { patronId },
+      order: { createdAt: 'DESC' },
+    });
+    for (const hold of holds) {
+      if (hold.status === 'WAITING') {
+        hold.queuePosition = await this.queuePositionOf(hold);
+      }
+    }
+    return holds;
+  }
+
+  async cancel(id: number): Promise<Hold> {
+    this.logger.info(`[HOLDS_SERVICE] Cancelling hold: ${id}`, { holdId: id });
+    const { bookId } = await this.findOne(id);
+
+    return this.dataSource.transaction(async (manager) => {
+      // Same lock as borrow and return, so a pickup cannot take the copy while it is rerouted
+      await lockRow(manager, Book, bookId);
+      const hold = await manager
+        .getRepository(Hold)
+        .findOne({ where: { id }, lock: { mode: 'pessimistic_write' } });
+
+      if (hold.status !== 'WAITING' && hold.status !== 'READY') {
+        throw new BadRequestException(`Hold ${id} is already ${hold.status}`);
+      }
+
+      const heldCopyId = hold.status === 'READY' ? hold.copyId : null;
+      hold.status = 'CANCELLED';
+      hold.closedAt = new Date();
+      const cancelledHold = await manager.save(hold);
+      await this.eventsService.publish(
+        'HOLD_CANCELLED',
+        { holdId: id, bookId, patronId: hold.patronId },
+        manager,
+      );
+
+      // A cancelled READY hold frees its copy for the next patron in line
+      if (heldCopyId) {
+        await this.routeReturnedCopy(heldCopyId, manager);
+      }
+      return cancelledHold;
+    });
+  }
+
+  async findReadyHold(
+    bookId: number,
+    patronId: number,
+    manager?: EntityManager,
+  ): Promise<Hold | null> {
+    return this.repositoryFor(manager).findOne({ where: { bookId, patronId, status: 'READY' } });
+  }
+
+  async hasWaitingHolds(bookId: number, manager?: EntityManager): Promise<boolean> {
+    return this.repositoryFor(manager).exists({ where: { bookId, status: 'WAITING' } });
+  }
+
+  async fulfill(hold: Hold, manager?: EntityManager): Promise<Hold> {
+    hold.status = 'FULFILLED';
+    hold.closedAt = new Date();
+    const fulfilledHold = await this.repositoryFor(manager).save(hold);
+    await this.eventsService.publish(
+      'HOLD_FULFILLED',
+      { holdId: hold.id, bookId: hold.bookId, patronId: hold.patronId, copyId: hold.copyId },
+      manager,
+    );
+    return fulfilledHold;
+  }
+
+  /**
+   * Decides where a copy goes once it is back in the building: onto the hold
+   * shelf for the first WAITING patron, or back into general circulation.
+   */
+  async routeReturnedCopy(copyId: number, manager?: EntityManager): Promise<Hold | null> {
+    const copy = await this.copiesService.findOne(copyId, manager);
+    const nextHold = await this.repositoryFor(manager).findOne({
+      where: { bookId: copy.bookId, status: 'WAITING' },
+      order: { createdAt: 'ASC', id: 'ASC' },
+    });
+
+    if (!nextHold) {
+      await this.copiesService.setStatus(copy.id, 'AVAILABLE', manager);
+      return null;
+    }
+
+    await this.markReady(nextHold, copy, manager);
+    return nextHold;
+  }
+
+  async expireHolds(): Promise<number> {
+    const now = new Date();
+    const lapsed = await this.holdRepository.find({
+      where: { status: In(['WAITING', 'READY']), expiresAt: LessThan(now) },
+      order: { expiresAt: 'ASC' },
+    });
+
+    let expiredCount = 0;
+    for (const { id, bookId } of lapsed) {
+      const expired = await this.dataSource.transaction(async (manager) => {
+        // Same lock as borrow and return; the hold may have been picked up or cancelled since
+        await lockRow(manager, Book, bookId);
+        const hold = await manager
+          .getRepository(Hold)
+          .findOne({ where: { id }, lock: { mode: 'pessimistic_write' } });
+        if (!['WAITING', 'READY'].includes(hold.status) || hold.expiresAt >= now) {
+          return false;
+        }
+
+        const heldCopyId = hold.status === 'READY' ? hold.copyId : null;
+        hold.status = 'EXPIRED';
+        hold.closedAt = now;
+        await manager.save(hold);
+        await this.eventsService.publish(
+          'HOLD_EXPIRED',
+          {
+            holdId: hold.id,
+            bookId: hold.bookId,
+            patronId: hold.patronId,
+            wasReady: heldCopyId !== null,
+          },
+          manager,
+        );
+        if (heldCopyId) {
+          await this.routeReturnedCopy(heldCopyId, manager);
+        }
+        return true;
+      });
+      if (expired) {
+        expiredCount++;
+      }
+    }
+
+    if (expiredCount > 0) {
+      this.logger.info(`[HOLDS_SERVICE] Expired ${expiredCount} hold(s)`, {
+        expiredCount,
+      });
+    }
+    return expiredCount;
+  }
+
+  private async markReady(hold: Hold, copy: BookCopy, manager?: EntityManager): Promise<void> {
+    const readyAt = new Date();
+    const expiresAt = new Date(readyAt);
+    expiresAt.setDate(expiresAt.getDate() + this.PICKUP_WINDOW_DAYS);
+
+    await this.copiesService.setStatus(copy.id, 'ON_HOLD', manager);
+    hold.status = 'READY';
+    hold.copyId = copy.id;
+    hold.readyAt = readyAt;
+    hold.expiresAt = expiresAt;
+    await this.repositoryFor(manager).save(hold);
+
+    this.logger.info('[HOLDS_SERVICE] Copy placed on hold shelf', {
+      holdId: hold.id,
+      bookId: hold.bookId,
+      copyId: copy.id,
+      patronId: hold.patronId,
+      pickupBy: expiresAt.toISOString(),
+    });
+    await this.eventsService.publish(
+      'HOLD_READY',
+      {
+        holdId: hold.id,
+        bookId: hold.bookId,
+        copyId: copy.id,
+        patronId: hold.patronId,
+        pickupBy: expiresAt.toISOString(),
+      },
+      manager,
+    );
+  }
+
+  private repositoryFor(manager?: EntityManager): Repository<Hold> {
+    return manager ? manager.getRepository(Hold) : this.holdRepository;
+  }
+
+  private async queuePositionOf(hold: Hold): Promise<number> {
+    const ahead = await this.holdRepository
+      .createQueryBuilder('hold')
+      .where('hold.bookId = :bookId', { bookId: hold.bookId })
+      .andWhere(`hold.status = 'WAITING'`)
+      .andWhere('(hold.createdAt, hold.id) < (:createdAt, :id)', {
+        createdAt: hold.createdAt,
+        id: hold.id,
+      })
+      .getCount();
+    return ahead + 1;
+  }
+}
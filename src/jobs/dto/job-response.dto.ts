@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobRunResponseDto } from './job-run-response.dto';
+
+export class JobResponseDto {
+  @ApiProperty({ example: 'overdue-sweep', description: 'Name of the job' })
+  name: string;
+
+  @ApiProperty({ example: '0 * * * *', description: 'Cron expression the job runs on' })
+  cron: string;
+
+  @ApiProperty({ description: 'Next scheduled run on this instance', required: false })
+  nextRunAt?: Date;
+
+  @ApiProperty({ type: JobRunResponseDto, description: 'Most recent run', required: false })
+  lastRun?: JobRunResponseDto;
+}
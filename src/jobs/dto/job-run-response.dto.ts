@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  JOB_RUN_STATUSES,
+  JOB_TRIGGERS,
+  JobRunStatus,
+  JobTrigger,
+} from '../entities/job-run.entity';
+
+export class JobRunResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the run' })
+  id: number;
+
+  @ApiProperty({ example: 'overdue-sweep', description: 'Name of the job' })
+  jobName: string;
+
+  @ApiProperty({ example: 'SCHEDULE', enum: JOB_TRIGGERS, description: 'What started the run' })
+  trigger: JobTrigger;
+
+  @ApiProperty({ example: 'SUCCEEDED', enum: JOB_RUN_STATUSES, description: 'Outcome of the run' })
+  status: JobRunStatus;
+
+  @ApiProperty({ description: 'When the run started' })
+  startedAt: Date;
+
+  @ApiProperty({ description: 'When the run finished', required: false })
+  finishedAt?: Date;
+
+  @ApiProperty({
+    example: 42,
+    description: 'How long the run took in milliseconds',
+    required: false,
+  })
+  durationMs?: number;
+
+  @ApiProperty({
+    example: { overdueCount: 3 },
+    description: 'Summary reported by the job',
+    required: false,
+  })
+  result?: Record<string, unknown>;
+
+  @ApiProperty({ example: 'connection refused', description: 'Error message', required: false })
+  error?: string;
+}
@@ -0,0 +1,50 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+export const JOB_RUN_STATUSES = ['RUNNING', 'SUCCEEDED', 'FAILED'] as const;
+export type JobRunStatus = (typeof JOB_RUN_STATUSES)[number];
+
+export const JOB_TRIGGERS = ['SCHEDULE', 'MANUAL'] as const;
+export type JobTrigger = (typeof JOB_TRIGGERS)[number];
+
+/**
+ * One execution of a scheduled job. Written as RUNNING when the job starts
+ * and completed with its outcome, duration and error when it finishes.
+ */
+@Entity('job_runs')
+@Index(['jobName', 'startedAt'])
+export class JobRun {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  jobName: string;
+
+  @Column({
+    type: 'enum',
+    enum: JOB_TRIGGERS,
+  })
+  trigger: JobTrigger;
+
+  @Column({
+    type: 'enum',
+    enum: JOB_RUN_STATUSES,
+    default: 'RUNNING',
+  })
+  status: JobRunStatus;
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt?: Date;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs?: number;
+
+  // Whatever the job reported back, e.g. how many rows it touched
+  @Column({ type: 'jsonb', nullable: true })
+  result?: Record<string, unknown>;
+
+  @Column({ type: 'text', nullable: true })
+  error?: string;
+}
@@ -0,0 +1,9 @@
+/**
+ * A job registered with JobsService. `cron` uses the standard five-field
+ * syntax (an optional leading seconds field is also accepted).
+ */
+export interface JobDefinition {
+  name: string;
+  cron: string;
+  run: () => Promise<Record<string, unknown> | void>;
+}
@@ -0,0 +1,70 @@
+import { Controller, Get, Post, Param, HttpCode, HttpStatus, Inject } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBearerAuth } from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { JobResponseDto } from './dto/job-response.dto';
+import { JobRunResponseDto } from './dto/job-run-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('jobs')
+@ApiBearerAuth()
+@Roles('ADMIN')
+@Controller('admin/jobs')
+export class JobsController {
+  constructor(
+    private readonly jobsService: JobsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[JOBS_CONTROLLER] JobsController initialized');
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List scheduled jobs with their next and last run (admin only)' })
+  @ApiResponse({ status: 200, description: 'Registered jobs.', type: [JobResponseDto] })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async findAll() {
+    this.logger.debug('[JOBS_CONTROLLER] GET /admin/jobs - Fetching jobs');
+    return this.jobsService.findAll();
+  }
+
+  @Get(':name/runs')
+  @ApiOperation({ summary: 'Get the most recent runs of a job (admin only)' })
+  @ApiParam({ name: 'name', description: 'Job name', example: 'overdue-sweep' })
+  @ApiResponse({ status: 200, description: 'Runs, newest first.', type: [JobRunResponseDto] })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Job not found.' })
+  async findRuns(@Param('name') name: string) {
+    this.logger.debug(`[JOBS_CONTROLLER] GET /admin/jobs/${name}/runs - Fetching job runs`, {
+      jobName: name,
+    });
+    return this.jobsService.findRuns(name);
+  }
+
+  @Post(':name/run')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Run a job now and wait for it to finish (admin only)' })
+  @ApiParam({ name: 'name', description: 'Job name', example: 'overdue-sweep' })
+  @ApiResponse({
+    status: 200,
+    description: 'The job ran; check status for its outcome.',
+    type: JobRunResponseDto,
+  })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Job not found.' })
+  @ApiResponse({ status: 409, description: 'The job is already running on some instance.' })
+  async run(@Param('name') name: string) {
+    this.logger.info(`[JOBS_CONTROLLER] POST /admin/jobs/${name}/run - Running job`, {
+      jobName: name,
+    });
+    try {
+      return await this.jobsService.runNow(name);
+    } catch (error) {
+      this.logger.error(`[JOBS_CONTROLLER] Failed to run job: ${name}`, {
+        jobName: name,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
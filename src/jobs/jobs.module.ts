@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JobsService } from './jobs.service';
+import { JobsController } from './jobs.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { JobRun } from './entities/job-run.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([JobRun]), LoggerModule],
+  controllers: [JobsController],
+  providers: [JobsService],
+  exports: [JobsService],
+})
+export class JobsModule {}
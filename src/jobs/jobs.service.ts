@@ -0,0 +1,212 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  Inject,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { DataSource, Repository } from 'typeorm';
+import { JobRun, JobRunStatus, JobTrigger } from './entities/job-run.entity';
+import { JobDefinition } from './job-definition';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class JobsService implements OnApplicationBootstrap {
+  private readonly SCHEDULING_ENABLED = process.env.JOBS_ENABLED !== 'false';
+  private readonly HISTORY_LIMIT = 50;
+  private readonly jobs = new Map<string, JobDefinition>();
+
+  constructor(
+    @InjectRepository(JobRun)
+    private readonly runRepository: Repository<JobRun>,
+    private readonly dataSource: DataSource,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[JOBS_SERVICE] JobsService initialized');
+  }
+
+  /**
+   * Called by feature services from onModuleInit; scheduling starts once the
+   * whole application has bootstrapped.
+   */
+  register(job: JobDefinition): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job "${job.name}" is already registered`);
+    }
+    this.jobs.set(job.name, job);
+    this.logger.debug('[JOBS_SERVICE] Job registered', { jobName: job.name, cron: job.cron });
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.SCHEDULING_ENABLED) {
+      this.logger.info('[JOBS_SERVICE] Scheduling disabled (JOBS_ENABLED=false)', {
+        jobs: [...this.jobs.keys()],
+      });
+      return;
+    }
+
+    // The schedule module stops these on application shutdown
+    for (const job of this.jobs.values()) {
+      const cronJob = new CronJob(job.cron, () => this.runScheduled(job));
+      this.schedulerRegistry.addCronJob(job.name, cronJob);
+      cronJob.start();
+      this.logger.info('[JOBS_SERVICE] Job scheduled', {
+        jobName: job.name,
+        cron: job.cron,
+        nextRunAt: cronJob.nextDate().toJSDate().toISOString(),
+      });
+    }
+  }
+
+  async findAll() {
+    const jobs = [];
+    for (const job of this.jobs.values()) {
+      const lastRun = await this.findLastRun(job.name);
+      jobs.push({
+        name: job.name,
+        cron: job.cron,
+        nextRunAt: this.nextRunAt(job.name),
+        lastRun: lastRun ?? undefined,
+      });
+    }
+    return jobs;
+  }
+
+  /**
+   * The most recent run of a job, or of those that ended with `status`.
+   */
+  async findLastRun(name: string, status?: JobRunStatus): Promise<JobRun | null> {
+    return this.runRepository.findOne({
+      where: { jobName: name, ...(status && { status }) },
+      order: { startedAt: 'DESC', id: 'DESC' },
+    });
+  }
+
+  async findRuns(name: string): Promise<JobRun[]> {
+    this.getJob(name);
+    return this.runRepository.find({
+      where: { jobName: name },
+      order: { startedAt: 'DESC', id: 'DESC' },
+      take: this.HISTORY_LIMIT,
+    });
+  }
+
+  async runNow(name: string): Promise<JobRun> {
+    const job = this.getJob(name);
+    this.logger.info(`[JOBS_SERVICE] Manual run requested: ${name}`, { jobName: name });
+
+    const run = await this.execute(job, 'MANUAL');
+    if (!run) {
+      throw new ConflictException(`Job "${name}" is already running`);
+    }
+    return run;
+  }
+
+  private getJob(name: string): JobDefinition {
+    const job = this.jobs.get(name);
+    if (!job) {
+      this.logger.warn(`[JOBS_SERVICE] Job not found: ${name}`, { jobName: name });
+      throw new NotFoundException(`Job "${name}" not found`);
+    }
+    return job;
+  }
+
+  private nextRunAt(name: string): Date | undefined {
+    if (!this.schedulerRegistry.doesExist('cron', name)) {
+      return undefined;
+    }
+    return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate();
+  }
+
+  private async runScheduled(job: JobDefinition): Promise<void> {
+    try {
+      const run = await this.execute(job, 'SCHEDULE');
+      if (!run) {
+        this.logger.debug(`[JOBS_SERVICE] Skipping ${job.name}, another instance is running it`, {
+          jobName: job.name,
+        });
+      }
+    } catch (error) {
+      this.logger.error(`[JOBS_SERVICE] Failed to start scheduled job: ${job.name}`, {
+        jobName: job.name,
+        stack: error.stack,
+      });
+    }
+  }
+
+  /**
+   * Runs the job while holding a Postgres advisory lock on its name, so only
+   * one instance runs it at a time. Returns null when the lock is taken. The
+   * lock lives on a dedicated connection and is released with it, even if the
+   * process dies mid-run.
+   */
+  private async execute(job: JobDefinition, trigger: JobTrigger): Promise<JobRun | null> {
+    const lockKey = `job:${job.name}`;
+    const queryRunner = this.dataSource.createQueryRunner();
+    await queryRunner.connect();
+    try {
+      const [{ locked }] = await queryRunner.query(
+        'SELECT pg_try_advisory_lock(hashtext($1)) AS locked',
+        [lockKey],
+      );
+      if (!locked) {
+        return null;
+      }
+      try {
+        return await this.record(job, trigger);
+      } finally {
+        await queryRunner.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  private async record(job: JobDefinition, trigger: JobTrigger): Promise<JobRun> {
+    const run = await this.runRepository.save(
+      this.runRepository.create({
+        jobName: job.name,
+        trigger,
+        status: 'RUNNING',
+        startedAt: new Date(),
+      }),
+    );
+    this.logger.debug(`[JOBS_SERVICE] Job started: ${job.name}`, {
+      jobName: job.name,
+      runId: run.id,
+      trigger,
+    });
+
+    try {
+      run.result = (await job.run()) || undefined;
+      run.status = 'SUCCEEDED';
+    } catch (error) {
+      run.status = 'FAILED';
+      run.error = error.message;
+      this.logger.error(`[JOBS_SERVICE] Job failed: ${job.name}`, {
+        jobName: job.name,
+        runId: run.id,
+        stack: error.stack,
+      });
+    }
+
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    const finishedRun = await this.runRepository.save(run);
+
+    this.logger.info(`[JOBS_SERVICE] Job finished: ${job.name}`, {
+      jobName: job.name,
+      runId: run.id,
+      trigger,
+      status: run.status,
+      durationMs: run.durationMs,
+      result: run.result,
+    });
+    return finishedRun;
+  }
+}
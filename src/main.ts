@@ -16,6 +16,8 @@ const logger = new Logger({
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: false, // Disable default NestJS logger to use our custom logger
+    // Let startup errors (e.g. a missing JWT_SECRET) reach the handler below instead of exiting silently
+    abortOnError: false,
   });
 
   // Serve static files from public directory (works in both dev and prod)
@@ -51,10 +53,24 @@ async function bootstrap() {
     .addTag('books', 'Book management endpoints')
     .addTag('authors', 'Author management endpoints')
     .addTag('borrowings', 'Book borrowing and return operations')
+    .addTag('patrons', 'Library patron (card holder) management')
+    .addTag('copies', 'Physical copies (items) of books')
+    .addTag('holds', 'Hold (reservation) queue for checked-out books')
+    .addTag('fines', 'Overdue fines and patron account ledger')
+    .addTag('auth', 'Login and account management')
+    .addTag('search', 'Full-text catalog search')
+    .addTag('jobs', 'Scheduled background jobs and their run history')
+    .addTag('webhooks', 'Outgoing webhook subscriptions and their delivery log')
+    .addTag('audit', 'Audit trail of catalog, patron and circulation changes')
+    .addTag('health', 'Liveness and readiness probes')
+    .addTag('metrics', 'Prometheus metrics')
+    .addBearerAuth()
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
-  SwaggerModule.setup('api', app, document);
+  SwaggerModule.setup('api', app, document, {
+    swaggerOptions: { persistAuthorization: true },
+  });
   logger.info('[BOOTSTRAP] Swagger documentation configured at /api');
 
   // Run seed on startup if enabled
@@ -74,6 +90,9 @@ async function bootstrap() {
     }
   }
 
+  // Stop scheduled jobs and close DB connections on SIGTERM/SIGINT
+  app.enableShutdownHooks();
+
   const port = process.env.PORT || 3000;
   await app.listen(port);
 
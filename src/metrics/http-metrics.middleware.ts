@@ -0,0 +1,30 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Times every request from arrival until the response is sent. Unlike an
+ * interceptor it also sees requests that guards reject (401, 403) and those
+ * that match no route (404).
+ */
+@Injectable()
+export class HttpMetricsMiddleware implements NestMiddleware {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  use(request: Request, response: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+    response.once('finish', () => {
+      const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+      // Express sets route once a handler matched; its path is the template (/books/:id),
+      // so each route is one series whatever its IDs
+      const route = request.route?.path ?? 'unmatched';
+      this.metricsService.observeHttpRequest(
+        request.method,
+        route,
+        response.statusCode,
+        durationMs,
+      );
+    });
+    next();
+  }
+}
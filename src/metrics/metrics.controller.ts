@@ -0,0 +1,31 @@
+import { Controller, Get, Header, Inject } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiProduces, ApiResponse } from '@nestjs/swagger';
+import { Registry } from 'prom-client';
+import { MetricsService } from './metrics.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { Logger } from 'common-sense-logger';
+
+// Scraped by Prometheus, which does not authenticate
+@ApiTags('metrics')
+@Public()
+@Controller('metrics')
+export class MetricsController {
+  constructor(
+    private readonly metricsService: MetricsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[METRICS_CONTROLLER] MetricsController initialized');
+  }
+
+  @Get()
+  @Header('Content-Type', Registry.PROMETHEUS_CONTENT_TYPE)
+  @ApiOperation({
+    summary: 'Prometheus metrics: HTTP latency, database pool and library activity',
+  })
+  @ApiProduces(Registry.PROMETHEUS_CONTENT_TYPE)
+  @ApiResponse({ status: 200, description: 'Metrics in the Prometheus text format.' })
+  metrics() {
+    return this.metricsService.metrics();
+  }
+}
@@ -0,0 +1,152 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { Logger } from 'common-sense-logger';
+
+interface LibraryStats {
+  overdueLoans: number;
+  catalogBooks: number;
+}
+
+@Injectable()
+export class MetricsService {
+  private readonly STATS_TTL_MS = parseInt(process.env.METRICS_STATS_TTL_MS || '60000', 10);
+
+  readonly registry = new Registry();
+
+  private readonly httpRequestDuration = new Histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Duration of HTTP requests, by route template and status code',
+    labelNames: ['method', 'route', 'status_code'],
+    buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [this.registry],
+  });
+
+  private readonly booksBorrowed = new Counter({
+    name: 'library_books_borrowed_total',
+    help: 'Books borrowed since the process started',
+    registers: [this.registry],
+  });
+
+  private readonly booksReturned = new Counter({
+    name: 'library_books_returned_total',
+    help: 'Books returned since the process started',
+    labelNames: ['overdue'],
+    registers: [this.registry],
+  });
+
+  private stats: LibraryStats | null = null;
+  private statsRefreshedAt = 0;
+  private statsRefresh: Promise<void> | null = null;
+
+  constructor(
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    collectDefaultMetrics({ register: this.registry });
+
+    // Gauges are read at scrape time; the pool counters live in memory
+    const pool = () => (this.dataSource.driver as PostgresDriver).master;
+    const stats = () => this.getStats();
+    new Gauge({
+      name: 'db_pool_connections',
+      help: 'Connections in the database pool, by state',
+      labelNames: ['state'],
+      registers: [this.registry],
+      collect() {
+        const { totalCount = 0, idleCount = 0 } = pool() ?? {};
+        this.set({ state: 'total' }, totalCount);
+        this.set({ state: 'idle' }, idleCount);
+        this.set({ state: 'active' }, totalCount - idleCount);
+      },
+    });
+    new Gauge({
+      name: 'db_pool_waiting_requests',
+      help: 'Queries waiting for a free connection in the database pool',
+      registers: [this.registry],
+      collect() {
+        this.set(pool()?.waitingCount ?? 0);
+      },
+    });
+    new Gauge({
+      name: 'library_loans_overdue',
+      help: 'Loans that are open past their due date',
+      registers: [this.registry],
+      async collect() {
+        const current = await stats();
+        if (current) {
+          this.set(current.overdueLoans);
+        }
+      },
+    });
+    new Gauge({
+      name: 'library_catalog_books',
+      help: 'Books in the catalog, excluding deleted ones',
+      registers: [this.registry],
+      async collect() {
+        const current = await stats();
+        if (current) {
+          this.set(current.catalogBooks);
+        }
+      },
+    });
+
+    this.logger.info('[METRICS_SERVICE] MetricsService initialized');
+  }
+
+  metrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  observeHttpRequest(method: string, route: string, statusCode: number, durationMs: number): void {
+    this.httpRequestDuration.observe(
+      { method, route, status_code: String(statusCode) },
+      durationMs / 1000,
+    );
+  }
+
+  recordBorrow(): void {
+    this.booksBorrowed.inc();
+  }
+
+  recordReturn(wasOverdue: boolean): void {
+    this.booksReturned.inc({ overdue: String(wasOverdue) });
+  }
+
+  /**
+   * Counts for the business gauges, cached for METRICS_STATS_TTL_MS so that
+   * frequent scrapes, or several scrapers, do not each query the database.
+   * Concurrent scrapes share one refresh; if it fails, the last values stay.
+   */
+  private async getStats(): Promise<LibraryStats | null> {
+    if (Date.now() - this.statsRefreshedAt >= this.STATS_TTL_MS) {
+      this.statsRefresh ??= this.refreshStats().finally(() => {
+        this.statsRefresh = null;
+      });
+      await this.statsRefresh;
+    }
+    return this.stats;
+  }
+
+  private async refreshStats(): Promise<void> {
+    try {
+      // Open loans past due, whether or not the overdue sweep has flagged them yet;
+      // served by the (status, dueDate) index
+      const [{ overdue }] = await this.dataSource.query(
+        `SELECT COUNT(*)::int AS "overdue" FROM "borrowings"
+         WHERE "status" IN ('BORROWED', 'OVERDUE') AND "dueDate" < CURRENT_DATE`,
+      );
+      const [{ books }] = await this.dataSource.query(
+        `SELECT COUNT(*)::int AS "books" FROM "books" WHERE "deletedAt" IS NULL`,
+      );
+      this.stats = { overdueLoans: overdue, catalogBooks: books };
+      this.statsRefreshedAt = Date.now();
+    } catch (error) {
+      this.logger.error('[METRICS_SERVICE] Failed to refresh library stats', {
+        stack: error.stack,
+      });
+    }
+  }
+}
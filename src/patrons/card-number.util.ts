@@ -0,0 +1,10 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Generates a library card number in the form LIB-XXXXXXXXXX.
+ * Callers are responsible for checking the number is not already taken.
+ */
+export function generateCardNumber(): string {
+  const digits = Array.from({ length: 10 }, () => randomInt(0, 10)).join('');
+  return `LIB-${digits}`;
+}
@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsEmail, IsIn } from 'class-validator';
+import { PATRON_STATUSES, PatronStatus } from '../entities/patron.entity';
+
+export class CreatePatronDto {
+  @ApiProperty({
+    description: 'Library card number (generated when omitted)',
+    example: 'LIB-0000000001',
+    required: false,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  cardNumber?: string;
+
+  @ApiProperty({
+    description: 'Full name of the patron',
+    example: 'John Doe',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'Contact email address',
+    example: 'john.doe@example.com',
+    required: false,
+  })
+  @IsEmail()
+  @IsOptional()
+  email?: string;
+
+  @ApiProperty({
+    description: 'Status of the patron account',
+    enum: PATRON_STATUSES,
+    default: 'ACTIVE',
+    required: false,
+  })
+  @IsIn(PATRON_STATUSES)
+  @IsOptional()
+  status?: PatronStatus;
+}
@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PATRON_STATUSES, PatronStatus } from '../entities/patron.entity';
+
+export class PatronResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the patron' })
+  id: number;
+
+  @ApiProperty({ example: 'LIB-0000000001', description: 'Library card number' })
+  cardNumber: string;
+
+  @ApiProperty({ example: 'John Doe', description: 'Full name of the patron' })
+  name: string;
+
+  @ApiProperty({
+    example: 'john.doe@example.com',
+    description: 'Contact email address',
+    required: false,
+  })
+  email?: string;
+
+  @ApiProperty({
+    example: 'ACTIVE',
+    enum: PATRON_STATUSES,
+    description: 'Status of the patron account',
+  })
+  status: PatronStatus;
+
+  @ApiProperty({ description: 'Date when the patron was created' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Date when the patron was last updated' })
+  updatedAt: Date;
+}
@@ -0,0 +1,43 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Borrowing } from '../../borrowings/entities/borrowing.entity';
+
+export const PATRON_STATUSES = ['ACTIVE', 'SUSPENDED', 'EXPIRED'] as const;
+export type PatronStatus = (typeof PATRON_STATUSES)[number];
+
+@Entity('patrons')
+export class Patron {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ unique: true })
+  cardNumber: string;
+
+  @Column()
+  name: string;
+
+  @Column({ unique: true, nullable: true })
+  email?: string;
+
+  @Column({
+    type: 'enum',
+    enum: PATRON_STATUSES,
+    default: 'ACTIVE',
+  })
+  status: PatronStatus;
+
+  @OneToMany(() => Borrowing, (borrowing) => borrowing.patron)
+  borrowings: Borrowing[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
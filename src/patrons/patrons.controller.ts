@@ -0,0 +1,190 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Inject,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PatronsService } from './patrons.service';
+import { CreatePatronDto } from './dto/create-patron.dto';
+import { UpdatePatronDto } from './dto/update-patron.dto';
+import { PatronResponseDto } from './dto/patron-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { AuthUser } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('patrons')
+@ApiBearerAuth()
+@Roles('ADMIN', 'LIBRARIAN')
+@Controller('patrons')
+export class PatronsController {
+  constructor(
+    private readonly patronsService: PatronsService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[PATRONS_CONTROLLER] PatronsController initialized');
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Register a new patron' })
+  @ApiBody({ type: CreatePatronDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The patron has been successfully created.',
+    type: PatronResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - Invalid input, card number or email already exists.',
+  })
+  async create(@Body() createPatronDto: CreatePatronDto, @CurrentUser() user: AuthUser) {
+    this.logger.info('[PATRONS_CONTROLLER] POST /patrons - Creating new patron', {
+      name: createPatronDto.name,
+    });
+    try {
+      const patron = await this.patronsService.create(createPatronDto, user);
+      this.logger.info('[PATRONS_CONTROLLER] Patron creation successful', {
+        patronId: patron.id,
+      });
+      return patron;
+    } catch (error) {
+      this.logger.error('[PATRONS_CONTROLLER] Failed to create patron', {
+        createPatronDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all patrons' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of all patrons',
+    type: [PatronResponseDto],
+  })
+  async findAll() {
+    this.logger.debug('[PATRONS_CONTROLLER] GET /patrons - Fetching all patrons');
+    const patrons = await this.patronsService.findAll();
+    this.logger.debug(`[PATRONS_CONTROLLER] Returning ${patrons.length} patrons`, {
+      count: patrons.length,
+    });
+    return patrons;
+  }
+
+  @Get('card/:cardNumber')
+  @ApiOperation({ summary: 'Get a patron by library card number' })
+  @ApiParam({ name: 'cardNumber', type: String, description: 'Library card number' })
+  @ApiResponse({
+    status: 200,
+    description: 'The patron details',
+    type: PatronResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async findByCardNumber(@Param('cardNumber') cardNumber: string) {
+    this.logger.debug(`[PATRONS_CONTROLLER] GET /patrons/card/${cardNumber} - Fetching patron`, {
+      cardNumber,
+    });
+    return this.patronsService.findByCardNumber(cardNumber);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a patron by ID' })
+  @ApiParam({ name: 'id', type: Number, description: 'Patron ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'The patron details',
+    type: PatronResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async findOne(@Param('id') id: string) {
+    this.logger.debug(`[PATRONS_CONTROLLER] GET /patrons/${id} - Fetching patron`, {
+      patronId: id,
+    });
+    try {
+      return await this.patronsService.findOne(+id);
+    } catch (error) {
+      this.logger.error(`[PATRONS_CONTROLLER] Failed to retrieve patron ${id}`, {
+        patronId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a patron' })
+  @ApiParam({ name: 'id', type: Number, description: 'Patron ID' })
+  @ApiBody({ type: UpdatePatronDto })
+  @ApiResponse({
+    status: 200,
+    description: 'The patron has been successfully updated.',
+    type: PatronResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
+  async update(
+    @Param('id') id: string,
+    @Body() updatePatronDto: UpdatePatronDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    this.logger.info(`[PATRONS_CONTROLLER] PATCH /patrons/${id} - Updating patron`, {
+      patronId: id,
+      updates: Object.keys(updatePatronDto),
+    });
+    try {
+      const patron = await this.patronsService.update(+id, updatePatronDto, user);
+      this.logger.info('[PATRONS_CONTROLLER] Patron update successful', {
+        patronId: patron.id,
+      });
+      return patron;
+    } catch (error) {
+      this.logger.error(`[PATRONS_CONTROLLER] Failed to update patron ${id}`, {
+        patronId: id,
+        updatePatronDto,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a patron without borrowing history' })
+  @ApiParam({ name: 'id', type: Number, description: 'Patron ID' })
+  @ApiResponse({ status: 204, description: 'The patron has been successfully deleted.' })
+  @ApiResponse({ status: 400, description: 'Bad request - Patron has borrowings on record.' })
+  @ApiResponse({ status: 404, description: 'Patron not found.' })
+  async remove(@Param('id') id: string, @CurrentUser() user: AuthUser) {
+    this.logger.info(`[PATRONS_CONTROLLER] DELETE /patrons/${id} - Deleting patron`, {
+      patronId: id,
+    });
+    try {
+      await this.patronsService.remove(+id, user);
+      this.logger.info('[PATRONS_CONTROLLER] Patron deletion successful', {
+        patronId: id,
+      });
+    } catch (error) {
+      this.logger.error(`[PATRONS_CONTROLLER] Failed to delete patron ${id}`, {
+        patronId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
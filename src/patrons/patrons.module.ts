@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PatronsService } from './patrons.service';
+import { PatronsController } from './patrons.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { EventsModule } from '../events/events.module';
+import { AuditModule } from '../audit/audit.module';
+import { Patron } from './entities/patron.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Patron, Borrowing]), EventsModule, AuditModule, LoggerModule],
+  controllers: [PatronsController],
+  providers: [PatronsService],
+  exports: [PatronsService],
+})
+export class PatronsModule {}
@@ -0,0 +1,216 @@
+import { Injectable, NotFoundException, BadRequestException, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { Patron } from './entities/patron.entity';
+import { Borrowing } from '../borrowings/entities/borrowing.entity';
+import { CreatePatronDto } from './dto/create-patron.dto';
+import { UpdatePatronDto } from './dto/update-patron.dto';
+import { generateCardNumber } from './card-number.util';
+import { EventsService } from '../events/events.service';
+import { AuditService } from '../audit/audit.service';
+import { AuthUser } from '../auth/auth-user';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class PatronsService {
+  constructor(
+    @InjectRepository(Patron)
+    private readonly patronRepository: Repository<Patron>,
+    @InjectRepository(Borrowing)
+    private readonly borrowingRepository: Repository<Borrowing>,
+    private readonly eventsService: EventsService,
+    private readonly auditService: AuditService,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[PATRONS_SERVICE] PatronsService initialized');
+  }
+
+  async create(createPatronDto: CreatePatronDto, actor?: AuthUser): Promise<Patron> {
+    this.logger.debug('[PATRONS_SERVICE] Creating new patron', {
+      name: createPatronDto.name,
+      cardNumber: createPatronDto.cardNumber,
+    });
+
+    if (createPatronDto.cardNumber) {
+      await this.assertCardNumberAvailable(createPatronDto.cardNumber);
+    }
+    if (createPatronDto.email) {
+      await this.assertEmailAvailable(createPatronDto.email);
+    }
+
+    const patron = this.patronRepository.create({
+      ...createPatronDto,
+      cardNumber: createPatronDto.cardNumber ?? (await this.nextCardNumber()),
+      status: createPatronDto.status ?? 'ACTIVE',
+    });
+
+    const savedPatron = await this.dataSource.transaction(async (manager) => {
+      const savedPatron = await manager.save(patron);
+      await this.eventsService.publish(
+        'PATRON_CREATED',
+        { patronId: savedPatron.id, cardNumber: savedPatron.cardNumber },
+        manager,
+      );
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'PATRON',
+          entityId: savedPatron.id,
+          action: 'CREATE',
+          after: savedPatron,
+        },
+        manager,
+      );
+      return savedPatron;
+    });
+    this.logger.info('[PATRONS_SERVICE] Patron created successfully', {
+      patronId: savedPatron.id,
+      cardNumber: savedPatron.cardNumber,
+    });
+
+    return savedPatron;
+  }
+
+  async findAll(): Promise<Patron[]> {
+    const patrons = await this.patronRepository.find({ order: { id: 'ASC' } });
+    this.logger.debug('[PATRONS_SERVICE] Fetching all patrons', {
+      totalPatrons: patrons.length,
+    });
+    return patrons;
+  }
+
+  async findOne(id: number): Promise<Patron> {
+    this.logger.debug(`[PATRONS_SERVICE] Fetching patron with ID: ${id}`, { patronId: id });
+    const patron = await this.patronRepository.findOne({ where: { id } });
+    if (!patron) {
+      this.logger.warn(`[PATRONS_SERVICE] Patron not found: ${id}`, { patronId: id });
+      throw new NotFoundException(`Patron with ID ${id} not found`);
+    }
+    return patron;
+  }
+
+  async findByCardNumber(cardNumber: string): Promise<Patron> {
+    this.logger.debug(`[PATRONS_SERVICE] Fetching patron by card number: ${cardNumber}`, {
+      cardNumber,
+    });
+    const patron = await this.patronRepository.findOne({ where: { cardNumber } });
+    if (!patron) {
+      this.logger.warn(`[PATRONS_SERVICE] Patron not found for card: ${cardNumber}`, {
+        cardNumber,
+      });
+      throw new NotFoundException(`Patron with card number ${cardNumber} not found`);
+    }
+    return patron;
+  }
+
+  async update(id: number, updatePatronDto: UpdatePatronDto, actor?: AuthUser): Promise<Patron> {
+    this.logger.debug(`[PATRONS_SERVICE] Updating patron with ID: ${id}`, {
+      patronId: id,
+      updates: updatePatronDto,
+    });
+
+    const patron = await this.findOne(id);
+    const oldPatron = { ...patron };
+
+    if (updatePatronDto.cardNumber && updatePatronDto.cardNumber !== patron.cardNumber) {
+      await this.assertCardNumberAvailable(updatePatronDto.cardNumber);
+    }
+    if (updatePatronDto.email && updatePatronDto.email !== patron.email) {
+      await this.assertEmailAvailable(updatePatronDto.email);
+    }
+
+    Object.assign(patron, updatePatronDto);
+    const updatedPatron = await this.dataSource.transaction(async (manager) => {
+      const updatedPatron = await manager.save(patron);
+      await this.eventsService.publish(
+        'PATRON_UPDATED',
+        { patronId: id, changes: updatePatronDto },
+        manager,
+      );
+      await this.auditService.record(
+        {
+          actor,
+          entityType: 'PATRON',
+          entityId: id,
+          action: 'UPDATE',
+          before: oldPatron,
+          after: patron,
+        },
+        manager,
+      );
+      return updatedPatron;
+    });
+
+    this.logger.info('[PATRONS_SERVICE] Patron updated successfully', {
+      patronId: id,
+      changes: Object.keys(updatePatronDto),
+    });
+
+    return updatedPatron;
+  }
+
+  async remove(id: number, actor?: AuthUser): Promise<void> {
+    this.logger.debug(`[PATRONS_SERVICE] Deleting patron with ID: ${id}`, { patronId: id });
+    const patron = await this.findOne(id);
+
+    const borrowingCount = await this.borrowingRepository.count({ where: { patronId: id } });
+    if (borrowingCount > 0) {
+      this.logger.warn(`[PATRONS_SERVICE] Cannot delete patron with borrowings: ${id}`, {
+        patronId: id,
+        borrowingCount,
+      });
+      throw new BadRequestException(
+        `Cannot delete patron with ID ${id}. This patron has ${borrowingCount} borrowing(s) on record. Set the patron status to EXPIRED instead.`,
+      );
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await this.auditService.record(
+        { actor, entityType: 'PATRON', entityId: id, action: 'DELETE', before: patron },
+        manager,
+      );
+      await manager.remove(patron);
+      await this.eventsService.publish(
+        'PATRON_DELETED',
+        { patronId: id, cardNumber: patron.cardNumber },
+        manager,
+      );
+    });
+    this.logger.info('[PATRONS_SERVICE] Patron deleted successfully', {
+      patronId: id,
+      cardNumber: patron.cardNumber,
+    });
+  }
+
+  private async assertCardNumberAvailable(cardNumber: string): Promise<void> {
+    const existingPatron = await this.patronRepository.findOne({ where: { cardNumber } });
+    if (existingPatron) {
+      this.logger.warn('[PATRONS_SERVICE] Attempted to use duplicate card number', {
+        cardNumber,
+        existingPatronId: existingPatron.id,
+      });
+      throw new BadRequestException('A patron with this card number already exists');
+    }
+  }
+
+  private async assertEmailAvailable(email: string): Promise<void> {
+    const existingPatron = await this.patronRepository.findOne({ where: { email } });
+    if (existingPatron) {
+      this.logger.warn('[PATRONS_SERVICE] Attempted to use duplicate email', {
+        email,
+        existingPatronId: existingPatron.id,
+      });
+      throw new BadRequestException('A patron with this email already exists');
+    }
+  }
+
+  private async nextCardNumber(): Promise<string> {
+    let cardNumber = generateCardNumber();
+    while (await this.patronRepository.exists({ where: { cardNumber } })) {
+      cardNumber = generateCardNumber();
+    }
+    return cardNumber;
+  }
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsInt,
+  IsIn,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+
+export const AUTOCOMPLETE_TYPES = ['book', 'author'] as const;
+export type AutocompleteType = (typeof AUTOCOMPLETE_TYPES)[number];
+
+export class AutocompleteQueryDto {
+  @ApiProperty({
+    description: 'Partial or misspelled title or author name',
+    example: 'hary pot',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  q: string;
+
+  @ApiProperty({
+    description: 'Suggest only book titles or only author names (both when omitted)',
+    enum: AUTOCOMPLETE_TYPES,
+    required: false,
+  })
+  @IsIn(AUTOCOMPLETE_TYPES)
+  @IsOptional()
+  type?: AutocompleteType;
+
+  @ApiProperty({
+    description: 'Maximum number of suggestions',
+    default: 10,
+    minimum: 1,
+    maximum: 25,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(25)
+  @IsOptional()
+  limit?: number = 10;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AUTOCOMPLETE_TYPES, AutocompleteType } from './autocomplete-query.dto';
+
+export class AutocompleteSuggestionDto {
+  @ApiProperty({ example: 'book', enum: AUTOCOMPLETE_TYPES })
+  type: AutocompleteType;
+
+  @ApiProperty({ example: 4, description: 'Book or author ID' })
+  id: number;
+
+  @ApiProperty({ example: "Harry Potter and the Philosopher's Stone" })
+  label: string;
+
+  @ApiProperty({ example: 0.72, description: 'Trigram word similarity between 0 and 1' })
+  score: number;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsString, IsNotEmpty, IsOptional, IsInt, Min, Max, MaxLength } from 'class-validator';
+
+export class SearchQueryDto {
+  @ApiProperty({
+    description: 'Search terms. Supports "quoted phrases", OR and -exclusions',
+    example: 'orwell dystopian',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  @ApiProperty({ description: 'Page number', default: 1, minimum: 1, required: false })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiProperty({
+    description: 'Results per page',
+    default: 20,
+    minimum: 1,
+    maximum: 100,
+    required: false,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 20;
+}
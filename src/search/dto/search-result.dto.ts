@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SearchResultDto {
+  @ApiProperty({ example: 2, description: 'Book ID' })
+  id: number;
+
+  @ApiProperty({ example: '1984' })
+  title: string;
+
+  @ApiProperty({ example: '978-0-452-28423-4' })
+  isbn: string;
+
+  @ApiProperty({ example: 1949 })
+  publishedYear: number;
+
+  @ApiProperty({ example: 'Dystopian Fiction', required: false })
+  genre?: string;
+
+  @ApiProperty({ example: 3 })
+  authorId: number;
+
+  @ApiProperty({ example: 'George Orwell' })
+  authorName: string;
+
+  @ApiProperty({ example: 0.6079, description: 'Relevance score; results are sorted by it' })
+  rank: number;
+
+  @ApiProperty({
+    example: '1984',
+    description: 'Title with matched terms wrapped in <b></b>',
+  })
+  titleHighlight: string;
+
+  @ApiProperty({
+    example: '<b>George</b> <b>Orwell</b> — Dystopian Fiction — English novelist and essayist...',
+    description: 'Fragments of author, genre and biography with matched terms wrapped in <b></b>',
+  })
+  snippet: string;
+}
+
+export class SearchResponseDto {
+  @ApiProperty({ type: [SearchResultDto] })
+  data: SearchResultDto[];
+
+  @ApiProperty({ example: 1 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 20 })
+  limit: number;
+
+  @ApiProperty({ example: 1 })
+  totalPages: number;
+}
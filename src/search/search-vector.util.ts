@@ -0,0 +1,19 @@
+/** Text search configuration used for both indexing and querying. */
+export const SEARCH_CONFIG = 'english';
+
+/**
+ * SQL that rebuilds `books."searchVector"` for the books matched by `where`
+ * (books aliased `b`, authors `a`). Weights: title A, author name B,
+ * author biography C, genre D.
+ */
+export function refreshSearchVectorSql(where: string): string {
+  return `
+    UPDATE "books" b SET "searchVector" =
+      setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(b."title", '')), 'A') ||
+      setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(a."firstName", '') || ' ' || coalesce(a."lastName", '')), 'B') ||
+      setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(a."biography", '')), 'C') ||
+      setweight(to_tsvector('${SEARCH_CONFIG}', coalesce(b."genre", '')), 'D')
+    FROM "authors" a
+    WHERE a."id" = b."authorId" AND ${where}
+  `;
+}
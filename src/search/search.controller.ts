@@ -0,0 +1,75 @@
+import { Controller, Get, Header, Query, Inject } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { SearchResponseDto } from './dto/search-result.dto';
+import { AutocompleteQueryDto } from './dto/autocomplete-query.dto';
+import { AutocompleteSuggestionDto } from './dto/autocomplete-suggestion.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('search')
+@Controller()
+export class SearchController {
+  constructor(
+    private readonly searchService: SearchService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[SEARCH_CONTROLLER] SearchController initialized');
+  }
+
+  @Get('search')
+  @Public()
+  @ApiOperation({
+    summary: 'Full-text search across book titles, author names, biographies and genres',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching books, most relevant first, with highlighted snippets',
+    type: SearchResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Missing or invalid q.' })
+  async search(@Query() query: SearchQueryDto) {
+    this.logger.info('[SEARCH_CONTROLLER] GET /search - Searching catalog', { q: query.q });
+    try {
+      return await this.searchService.search(query);
+    } catch (error) {
+      this.logger.error('[SEARCH_CONTROLLER] Search failed', {
+        q: query.q,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get('autocomplete')
+  @Public()
+  @Header('Cache-Control', 'public, max-age=60')
+  @ApiOperation({
+    summary: 'Typo-tolerant suggestions for book titles and author names',
+    description: 'Cheap enough to call on every keystroke; results are cacheable for a minute.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Best matches first',
+    type: [AutocompleteSuggestionDto],
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Missing q or invalid type.' })
+  async autocomplete(@Query() query: AutocompleteQueryDto) {
+    this.logger.debug('[SEARCH_CONTROLLER] GET /autocomplete - Fetching suggestions', {
+      q: query.q,
+      type: query.type,
+    });
+    try {
+      return await this.searchService.autocomplete(query);
+    } catch (error) {
+      this.logger.error('[SEARCH_CONTROLLER] Autocomplete failed', {
+        q: query.q,
+        type: query.type,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+import { LoggerModule } from '../common/logger/logger.module';
+import { Book } from '../books/entities/book.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Book]), LoggerModule],
+  controllers: [SearchController],
+  providers: [SearchService],
+  exports: [SearchService],
+})
+export class SearchModule {}
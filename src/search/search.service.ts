@@ -0,0 +1,132 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Book } from '../books/entities/book.entity';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { AutocompleteQueryDto } from './dto/autocomplete-query.dto';
+import { SEARCH_CONFIG, refreshSearchVectorSql } from './search-vector.util';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class SearchService {
+  private readonly AUTOCOMPLETE_THRESHOLD = process.env.AUTOCOMPLETE_THRESHOLD || '0.3';
+
+  constructor(
+    @InjectRepository(Book)
+    private readonly bookRepository: Repository<Book>,
+    private readonly dataSource: DataSource,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[SEARCH_SERVICE] SearchService initialized');
+  }
+
+  async search(query: SearchQueryDto) {
+    const { q, page = 1, limit = 20 } = query;
+    this.logger.debug('[SEARCH_SERVICE] Searching catalog', { q, page, limit });
+
+    const from = `
+      FROM "books" b
+      JOIN "authors" a ON a."id" = b."authorId",
+      websearch_to_tsquery('${SEARCH_CONFIG}', $1) query
+      WHERE b."searchVector" @@ query AND b."deletedAt" IS NULL
+    `;
+
+    const [{ total }] = await this.bookRepository.query(`SELECT COUNT(*)::int AS total ${from}`, [
+      q,
+    ]);
+    const rows = await this.bookRepository.query(
+      `
+      SELECT
+        b."id",
+        b."title",
+        b."isbn",
+        b."publishedYear",
+        b."genre",
+        b."authorId",
+        a."firstName" || ' ' || a."lastName" AS "authorName",
+        ts_rank(b."searchVector", query) AS "rank",
+        ts_headline('${SEARCH_CONFIG}', b."title", query, 'HighlightAll=true') AS "titleHighlight",
+        ts_headline(
+          '${SEARCH_CONFIG}',
+          concat_ws(' — ', a."firstName" || ' ' || a."lastName", b."genre", a."biography"),
+          query,
+          'MaxFragments=2, MinWords=5, MaxWords=20'
+        ) AS "snippet"
+      ${from}
+      ORDER BY "rank" DESC, b."id" ASC
+      LIMIT $2 OFFSET $3
+      `,
+      [q, limit, (page - 1) * limit],
+    );
+
+    const data = rows.map((row) => ({ ...row, rank: Number(row.rank) }));
+    const totalPages = Math.ceil(total / limit);
+
+    this.logger.info(`[SEARCH_SERVICE] Found ${total} result(s) for "${q}"`, {
+      q,
+      total,
+      page,
+      returned: data.length,
+    });
+
+    return { data, total, page, limit, totalPages };
+  }
+
+  /**
+   * Suggests titles and author names by trigram word similarity, so partial
+   * and misspelled input still matches. The `<%` operator is what lets
+   * Postgres use the trigram indexes; its cut-off is set per transaction.
+   */
+  async autocomplete(query: AutocompleteQueryDto) {
+    const { q, type, limit = 10 } = query;
+
+    const branches = [];
+    if (type !== 'author') {
+      branches.push(`
+        SELECT 'book' AS "type", b."id", b."title" AS "label",
+          word_similarity($1, b."title") AS "score"
+        FROM "books" b
+        WHERE $1 <% b."title" AND b."deletedAt" IS NULL
+      `);
+    }
+    if (type !== 'book') {
+      branches.push(`
+        SELECT 'author' AS "type", a."id", a."firstName" || ' ' || a."lastName" AS "label",
+          word_similarity($1, a."firstName" || ' ' || a."lastName") AS "score"
+        FROM "authors" a
+        WHERE $1 <% (a."firstName" || ' ' || a."lastName") AND a."deletedAt" IS NULL
+      `);
+    }
+
+    const rows = await this.dataSource.transaction(async (manager) => {
+      await manager.query(`SELECT set_config('pg_trgm.word_similarity_threshold', $1, true)`, [
+        this.AUTOCOMPLETE_THRESHOLD,
+      ]);
+      return manager.query(
+        `${branches.join(' UNION ALL ')} ORDER BY "score" DESC, "label" ASC LIMIT $2`,
+        [q, limit],
+      );
+    });
+
+    this.logger.debug(`[SEARCH_SERVICE] ${rows.length} suggestion(s) for "${q}"`, {
+      q,
+      type,
+      count: rows.length,
+    });
+
+    return rows.map((row) => ({ ...row, score: Number(row.score) }));
+  }
+
+  async refreshBook(bookId: number, manager?: EntityManager): Promise<void> {
+    const bookRepository = manager ? manager.getRepository(Book) : this.bookRepository;
+    await bookRepository.query(refreshSearchVectorSql('b."id" = $1'), [bookId]);
+    this.logger.debug('[SEARCH_SERVICE] Book search vector refreshed', { bookId });
+  }
+
+  async refreshAuthorBooks(authorId: number, manager?: EntityManager): Promise<void> {
+    const bookRepository = manager ? manager.getRepository(Book) : this.bookRepository;
+    await bookRepository.query(refreshSearchVectorSql('b."authorId" = $1'), [authorId]);
+    this.logger.debug('[SEARCH_SERVICE] Search vectors refreshed for author books', { authorId });
+  }
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsUrl, IsArray, IsIn, IsString, IsBoolean, IsOptional, MinLength } from 'class-validator';
+import { DOMAIN_EVENT_TYPES, DomainEventType } from '../../events/domain-events';
+
+export class CreateWebhookDto {
+  @ApiProperty({
+    description: 'Endpoint that receives the events (http://localhost is allowed for testing)',
+    example: 'https://discovery.example.org/hooks/library',
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url: string;
+
+  @ApiProperty({
+    description: 'Event types to deliver; omit or leave empty to receive every event',
+    enum: DOMAIN_EVENT_TYPES,
+    isArray: true,
+    example: ['BOOK_BORROWED', 'BOOK_RETURNED', 'BOOK_OVERDUE'],
+    required: false,
+  })
+  @IsArray()
+  @IsIn(DOMAIN_EVENT_TYPES, { each: true })
+  @IsOptional()
+  events?: DomainEventType[];
+
+  @ApiProperty({
+    description: 'Signing secret (at least 16 characters; generated when omitted)',
+    example: 'a-long-random-shared-secret',
+    required: false,
+  })
+  @IsString()
+  @MinLength(16)
+  @IsOptional()
+  secret?: string;
+
+  @ApiProperty({ description: 'Whether events are delivered', default: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @ApiProperty({
+    description: 'What the subscription is for',
+    example: 'SMS due-date reminders',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
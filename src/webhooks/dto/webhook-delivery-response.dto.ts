@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  WEBHOOK_DELIVERY_STATUSES,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+
+export class WebhookDeliveryResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the delivery' })
+  id: number;
+
+  @ApiProperty({ example: 1, description: 'ID of the subscription' })
+  subscriptionId: number;
+
+  @ApiProperty({ example: 42, description: 'ID of the domain event (same on every retry)' })
+  eventId: number;
+
+  @ApiProperty({ example: 'BOOK_BORROWED', description: 'Type of the domain event' })
+  eventType: string;
+
+  @ApiProperty({
+    example: {
+      id: 42,
+      type: 'BOOK_BORROWED',
+      occurredAt: '2024-01-15T10:00:00.000Z',
+      data: { borrowingId: 7, bookId: 1, copyId: 1, patronId: 2, dueDate: '2024-01-29' },
+    },
+    description: 'JSON body POSTed to the endpoint',
+  })
+  payload: Record<string, unknown>;
+
+  @ApiProperty({
+    example: 'SUCCEEDED',
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    description: 'PENDING while retries remain',
+  })
+  status: WebhookDeliveryStatus;
+
+  @ApiProperty({ example: 1, description: 'Attempts made so far' })
+  attempts: number;
+
+  @ApiProperty({ description: 'When the next attempt is due (PENDING only)' })
+  nextAttemptAt: Date;
+
+  @ApiProperty({
+    example: 200,
+    description: 'HTTP status returned by the latest attempt',
+    required: false,
+  })
+  responseStatus?: number;
+
+  @ApiProperty({
+    example: 'HTTP 503',
+    description: 'Why the latest attempt failed',
+    required: false,
+  })
+  lastError?: string;
+
+  @ApiProperty({ description: 'When the delivery was queued' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'When the endpoint accepted the event', required: false })
+  deliveredAt?: Date;
+}
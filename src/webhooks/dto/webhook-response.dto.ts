@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DOMAIN_EVENT_TYPES, DomainEventType } from '../../events/domain-events';
+
+export class WebhookResponseDto {
+  @ApiProperty({ example: 1, description: 'Unique identifier for the subscription' })
+  id: number;
+
+  @ApiProperty({
+    example: 'https://discovery.example.org/hooks/library',
+    description: 'Endpoint that receives the events',
+  })
+  url: string;
+
+  @ApiProperty({
+    example: 'a-long-random-shared-secret',
+    description: 'Signing secret; only returned when the subscription is created',
+    required: false,
+  })
+  secret?: string;
+
+  @ApiProperty({
+    example: ['BOOK_BORROWED', 'BOOK_RETURNED'],
+    enum: DOMAIN_EVENT_TYPES,
+    isArray: true,
+    description: 'Event types delivered (empty means every event)',
+  })
+  events: DomainEventType[];
+
+  @ApiProperty({ example: true, description: 'Whether events are delivered' })
+  active: boolean;
+
+  @ApiProperty({
+    example: 'SMS due-date reminders',
+    description: 'What the subscription is for',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { WebhookSubscription } from './webhook-subscription.entity';
+
+export const WEBHOOK_DELIVERY_STATUSES = ['PENDING', 'SUCCEEDED', 'FAILED'] as const;
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/**
+ * One event sent (or to be sent) to one subscription, with the outcome of the
+ * latest attempt. PENDING deliveries are retried until they succeed or run
+ * out of attempts.
+ */
+@Entity('webhook_deliveries')
+// An outbox event may be dispatched more than once; it is only queued once per subscription
+@Index(['subscriptionId', 'eventId'], { unique: true })
+@Index('IDX_webhook_deliveries_pending', ['nextAttemptAt', 'id'], {
+  where: `"status" = 'PENDING'`,
+})
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  subscriptionId: number;
+
+  @ManyToOne(() => WebhookSubscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: WebhookSubscription;
+
+  @Column()
+  eventId: number;
+
+  @Column()
+  eventType: string;
+
+  // The JSON body POSTed to the subscriber
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @Column({
+    type: 'enum',
+    enum: WEBHOOK_DELIVERY_STATUSES,
+    default: 'PENDING',
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', default: () => 'now()' })
+  nextAttemptAt: Date;
+
+  // HTTP status of the latest attempt, if the subscriber answered at all
+  @Column({ type: 'int', nullable: true })
+  responseStatus?: number;
+
+  @Column({ type: 'text', nullable: true })
+  lastError?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt?: Date;
+}
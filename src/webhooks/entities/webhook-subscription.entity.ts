@@ -0,0 +1,40 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { DomainEventType } from '../../events/domain-events';
+
+/**
+ * An external endpoint that receives domain events as signed HTTP POSTs.
+ */
+@Entity('webhook_subscriptions')
+export class WebhookSubscription {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  url: string;
+
+  // HMAC-SHA256 key for the X-Webhook-Signature header; only returned on create
+  @Column({ select: false })
+  secret: string;
+
+  // Event types to deliver; empty means every event
+  @Column({ type: 'varchar', array: true, default: '{}' })
+  events: DomainEventType[];
+
+  @Column({ default: true })
+  active: boolean;
+
+  @Column({ nullable: true })
+  description?: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,235 @@
+import { Injectable, Inject, OnModuleInit, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DataSource, In, Repository } from 'typeorm';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { signPayload } from './webhook-signature.util';
+import { EventsService } from '../events/events.service';
+import { DomainEvent } from '../events/domain-events';
+import { Logger } from 'common-sense-logger';
+
+/**
+ * Queues a delivery per matching subscription for every domain event, then
+ * POSTs pending deliveries, retrying failures with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS is reached.
+ */
+@Injectable()
+export class WebhookDispatcher implements OnModuleInit, OnApplicationBootstrap {
+  private readonly POLL_INTERVAL_MS = parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '1000', 10);
+  private readonly BATCH_SIZE = parseInt(process.env.WEBHOOK_BATCH_SIZE || '20', 10);
+  private readonly TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000', 10);
+  private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+  private readonly RETRY_BASE_MS = 30 * 1000;
+  private readonly MAX_BACKOFF_MS = 60 * 60 * 1000;
+  private dispatching = false;
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    private readonly eventsService: EventsService,
+    private readonly dataSource: DataSource,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[WEBHOOK_DISPATCHER] WebhookDispatcher initialized');
+  }
+
+  onModuleInit(): void {
+    this.eventsService.subscribeAll('webhooks', (event) => this.enqueue(event));
+  }
+
+  onApplicationBootstrap(): void {
+    // Cleared by the schedule module on application shutdown
+    const interval = setInterval(() => this.poll(), this.POLL_INTERVAL_MS);
+    this.schedulerRegistry.addInterval('webhook-dispatcher', interval);
+  }
+
+  async enqueue(event: DomainEvent): Promise<void> {
+    const subscriptions = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.active = true')
+      .andWhere('(cardinality(subscription.events) = 0 OR :type = ANY(subscription.events))', {
+        type: event.type,
+      })
+      .getMany();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    // orIgnore: the outbox may hand us the same event again after a crash
+    await this.deliveryRepository
+      .createQueryBuilder()
+      .insert()
+      .into(WebhookDelivery)
+      .values(
+        subscriptions.map((subscription) => ({
+          subscriptionId: subscription.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload: {
+            id: event.id,
+            type: event.type,
+            occurredAt: event.occurredAt,
+            data: event.payload,
+          },
+        })),
+      )
+      .orIgnore()
+      .execute();
+
+    this.logger.debug(`[WEBHOOK_DISPATCHER] Queued ${event.type} for delivery`, {
+      eventId: event.id,
+      subscriptionIds: subscriptions.map((subscription) => subscription.id),
+    });
+  }
+
+  /**
+   * Sends one batch of due deliveries. Rows are claimed by pushing their
+   * nextAttemptAt past the request timeout in a short SKIP LOCKED
+   * transaction, so the HTTP calls happen outside any transaction and other
+   * instances leave the claimed rows alone.
+   */
+  async deliverPending(): Promise<number> {
+    const deliveries = await this.dataSource.transaction(async (manager) => {
+      const repository = manager.getRepository(WebhookDelivery);
+      const due = await repository
+        .createQueryBuilder('delivery')
+        .where(`delivery.status = 'PENDING'`)
+        .andWhere('delivery.nextAttemptAt <= now()')
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .addOrderBy('delivery.id', 'ASC')
+        .limit(this.BATCH_SIZE)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+      if (due.length > 0) {
+        await repository.update(
+          { id: In(due.map((delivery) => delivery.id)) },
+          { nextAttemptAt: new Date(Date.now() + 2 * this.TIMEOUT_MS) },
+        );
+      }
+      return due;
+    });
+    if (deliveries.length === 0) {
+      return 0;
+    }
+
+    const subscriptions = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .addSelect('subscription.secret')
+      .whereInIds([...new Set(deliveries.map((delivery) => delivery.subscriptionId))])
+      .getMany();
+    const subscriptionsById = new Map(
+      subscriptions.map((subscription) => [subscription.id, subscription]),
+    );
+
+    await Promise.all(
+      deliveries.map((delivery) =>
+        this.attempt(delivery, subscriptionsById.get(delivery.subscriptionId)),
+      ),
+    );
+    return deliveries.length;
+  }
+
+  private async poll(): Promise<void> {
+    // A slow batch must not overlap with the next tick
+    if (this.dispatching) {
+      return;
+    }
+    this.dispatching = true;
+    try {
+      await this.deliverPending();
+    } catch (error) {
+      this.logger.error('[WEBHOOK_DISPATCHER] Failed to poll webhook deliveries', {
+        stack: error.stack,
+      });
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async attempt(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription | undefined,
+  ): Promise<void> {
+    delivery.attempts += 1;
+
+    if (!subscription?.active) {
+      delivery.status = 'FAILED';
+      delivery.lastError = 'Subscription is inactive';
+      await this.deliveryRepository.save(delivery);
+      return;
+    }
+
+    try {
+      delivery.responseStatus = await this.send(delivery, subscription);
+      if (delivery.responseStatus < 200 || delivery.responseStatus >= 300) {
+        throw new Error(`HTTP ${delivery.responseStatus}`);
+      }
+      delivery.status = 'SUCCEEDED';
+      delivery.deliveredAt = new Date();
+      delivery.lastError = null;
+      this.logger.debug(`[WEBHOOK_DISPATCHER] Delivered ${delivery.eventType}`, {
+        deliveryId: delivery.id,
+        subscriptionId: subscription.id,
+        eventId: delivery.eventId,
+        responseStatus: delivery.responseStatus,
+      });
+    } catch (error) {
+      delivery.lastError = error.message;
+      if (delivery.attempts >= this.MAX_ATTEMPTS) {
+        delivery.status = 'FAILED';
+        this.logger.error(`[WEBHOOK_DISPATCHER] Giving up on delivery: ${delivery.id}`, {
+          deliveryId: delivery.id,
+          subscriptionId: subscription.id,
+          eventId: delivery.eventId,
+          attempts: delivery.attempts,
+          error: error.message,
+        });
+      } else {
+        delivery.nextAttemptAt = new Date(Date.now() + this.backoffFor(delivery.attempts));
+        this.logger.warn(`[WEBHOOK_DISPATCHER] Delivery failed, will retry: ${delivery.id}`, {
+          deliveryId: delivery.id,
+          subscriptionId: subscription.id,
+          eventId: delivery.eventId,
+          attempts: delivery.attempts,
+          retryAt: delivery.nextAttemptAt.toISOString(),
+          error: error.message,
+        });
+      }
+    }
+    await this.deliveryRepository.save(delivery);
+  }
+
+  private async send(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+  ): Promise<number> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'library-management-webhooks',
+        'X-Webhook-Id': String(delivery.id),
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(subscription.secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(this.TIMEOUT_MS),
+    });
+    // The response body is not used; release the connection
+    await response.body?.cancel();
+    return response.status;
+  }
+
+  private backoffFor(attempts: number): number {
+    return Math.min(this.RETRY_BASE_MS * 2 ** (attempts - 1), this.MAX_BACKOFF_MS);
+  }
+}
@@ -0,0 +1,26 @@
+import { createHmac } from 'crypto';
+import { signPayload } from './webhook-signature.util';
+
+describe('signPayload', () => {
+  const body = JSON.stringify({ type: 'BOOK_BORROWED', payload: { id: 1 } });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+    expect(signPayload('secret', 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('matches a known digest', () => {
+    expect(signPayload('key', 0, 'body')).toBe(
+      'sha256=e0af04d5c83b24373ff89f540d0c8fd9a4e097e2b3ee8318ab5541047697626d',
+    );
+  });
+
+  it('changes with the secret, the timestamp and the body', () => {
+    const signature = signPayload('secret', 1700000000, body);
+
+    expect(signPayload('other', 1700000000, body)).not.toBe(signature);
+    expect(signPayload('secret', 1700000001, body)).not.toBe(signature);
+    expect(signPayload('secret', 1700000000, `${body} `)).not.toBe(signature);
+  });
+});
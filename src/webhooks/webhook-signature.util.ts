@@ -0,0 +1,11 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 over
+ * `<X-Webhook-Timestamp>.<raw body>`, hex encoded and prefixed with `sha256=`.
+ * Including the timestamp lets receivers reject replayed requests.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
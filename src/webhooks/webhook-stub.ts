@@ -0,0 +1,48 @@
+import { createServer } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { signPayload } from './webhook-signature.util';
+
+/**
+ * Local receiver for trying out webhooks: prints every delivery, checks its
+ * signature and answers with STUB_STATUS, so retries can be exercised too.
+ *
+ *   WEBHOOK_SECRET=<secret> STUB_STATUS=503 npm run webhooks:stub
+ *
+ * then subscribe http://localhost:4000/ with POST /webhooks.
+ */
+const PORT = parseInt(process.env.STUB_PORT || '4000', 10);
+const STATUS = parseInt(process.env.STUB_STATUS || '200', 10);
+const SECRET = process.env.WEBHOOK_SECRET;
+
+function signatureMatches(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+createServer((req, res) => {
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const timestamp = Number(req.headers['x-webhook-timestamp']);
+    const signature = String(req.headers['x-webhook-signature'] ?? '');
+
+    let verdict = 'not checked (set WEBHOOK_SECRET)';
+    if (SECRET) {
+      verdict = signatureMatches(signature, signPayload(SECRET, timestamp, body))
+        ? 'valid'
+        : 'INVALID';
+    }
+
+    console.log(
+      `${new Date().toISOString()} ${req.headers['x-webhook-event']} ` +
+        `delivery ${req.headers['x-webhook-id']}, signature ${verdict} -> ${STATUS}`,
+    );
+    console.log(`  ${body}`);
+
+    res.writeHead(STATUS).end();
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook stub listening on http://localhost:${PORT}/ (answering ${STATUS})`);
+});
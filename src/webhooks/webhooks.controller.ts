@@ -0,0 +1,164 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Inject,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookResponseDto } from './dto/webhook-response.dto';
+import { WebhookDeliveryResponseDto } from './dto/webhook-delivery-response.dto';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Logger } from 'common-sense-logger';
+
+@ApiTags('webhooks')
+@ApiBearerAuth()
+@Roles('ADMIN')
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(
+    private readonly webhooksService: WebhooksService,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[WEBHOOKS_CONTROLLER] WebhooksController initialized');
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Subscribe an endpoint to domain events (admin only)' })
+  @ApiBody({ type: CreateWebhookDto })
+  @ApiResponse({
+    status: 201,
+    description: 'The subscription has been created. This is the only response with the secret.',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid URL or event type.' })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async create(@Body() createWebhookDto: CreateWebhookDto) {
+    this.logger.info('[WEBHOOKS_CONTROLLER] POST /webhooks - Creating webhook subscription', {
+      url: createWebhookDto.url,
+    });
+    try {
+      return await this.webhooksService.create(createWebhookDto);
+    } catch (error) {
+      this.logger.error('[WEBHOOKS_CONTROLLER] Failed to create webhook subscription', {
+        url: createWebhookDto.url,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all webhook subscriptions (admin only)' })
+  @ApiResponse({ status: 200, description: 'List of subscriptions', type: [WebhookResponseDto] })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  async findAll() {
+    this.logger.debug('[WEBHOOKS_CONTROLLER] GET /webhooks - Fetching webhook subscriptions');
+    return this.webhooksService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook subscription by ID (admin only)' })
+  @ApiParam({ name: 'id', type: Number, description: 'Subscription ID' })
+  @ApiResponse({ status: 200, description: 'The subscription', type: WebhookResponseDto })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Subscription not found.' })
+  async findOne(@Param('id') id: string) {
+    this.logger.debug(`[WEBHOOKS_CONTROLLER] GET /webhooks/${id} - Fetching webhook subscription`, {
+      subscriptionId: id,
+    });
+    return this.webhooksService.findOne(+id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get the 50 most recent deliveries of a subscription (admin only)' })
+  @ApiParam({ name: 'id', type: Number, description: 'Subscription ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deliveries, newest first',
+    type: [WebhookDeliveryResponseDto],
+  })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Subscription not found.' })
+  async findDeliveries(@Param('id') id: string) {
+    this.logger.debug(
+      `[WEBHOOKS_CONTROLLER] GET /webhooks/${id}/deliveries - Fetching deliveries`,
+      {
+        subscriptionId: id,
+      },
+    );
+    return this.webhooksService.findDeliveries(+id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a webhook subscription (admin only)' })
+  @ApiParam({ name: 'id', type: Number, description: 'Subscription ID' })
+  @ApiBody({ type: UpdateWebhookDto })
+  @ApiResponse({
+    status: 200,
+    description: 'The subscription has been successfully updated.',
+    type: WebhookResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid input.' })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Subscription not found.' })
+  async update(@Param('id') id: string, @Body() updateWebhookDto: UpdateWebhookDto) {
+    this.logger.info(
+      `[WEBHOOKS_CONTROLLER] PATCH /webhooks/${id} - Updating webhook subscription`,
+      {
+        subscriptionId: id,
+        updates: Object.keys(updateWebhookDto),
+      },
+    );
+    try {
+      return await this.webhooksService.update(+id, updateWebhookDto);
+    } catch (error) {
+      this.logger.error(`[WEBHOOKS_CONTROLLER] Failed to update webhook subscription ${id}`, {
+        subscriptionId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a webhook subscription and its delivery log (admin only)' })
+  @ApiParam({ name: 'id', type: Number, description: 'Subscription ID' })
+  @ApiResponse({ status: 204, description: 'The subscription has been successfully deleted.' })
+  @ApiResponse({ status: 403, description: 'Requires the ADMIN role.' })
+  @ApiResponse({ status: 404, description: 'Subscription not found.' })
+  async remove(@Param('id') id: string) {
+    this.logger.info(
+      `[WEBHOOKS_CONTROLLER] DELETE /webhooks/${id} - Deleting webhook subscription`,
+      {
+        subscriptionId: id,
+      },
+    );
+    try {
+      await this.webhooksService.remove(+id);
+    } catch (error) {
+      this.logger.error(`[WEBHOOKS_CONTROLLER] Failed to delete webhook subscription ${id}`, {
+        subscriptionId: id,
+        stack: error.stack,
+      });
+      throw error;
+    }
+  }
+}
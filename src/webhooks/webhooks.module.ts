@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookDispatcher } from './webhook-dispatcher.service';
+import { EventsModule } from '../events/events.module';
+import { LoggerModule } from '../common/logger/logger.module';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WebhookSubscription, WebhookDelivery]),
+    EventsModule,
+    LoggerModule,
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcher],
+})
+export class WebhooksModule {}
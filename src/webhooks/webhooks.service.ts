@@ -0,0 +1,107 @@
+import { Injectable, NotFoundException, Inject } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { WebhookSubscription } from './entities/webhook-subscription.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { Logger } from 'common-sense-logger';
+
+@Injectable()
+export class WebhooksService {
+  private readonly DELIVERY_HISTORY_LIMIT = 50;
+
+  constructor(
+    @InjectRepository(WebhookSubscription)
+    private readonly subscriptionRepository: Repository<WebhookSubscription>,
+    @InjectRepository(WebhookDelivery)
+    private readonly deliveryRepository: Repository<WebhookDelivery>,
+    @Inject('LOGGER')
+    private readonly logger: Logger,
+  ) {
+    this.logger.info('[WEBHOOKS_SERVICE] WebhooksService initialized');
+  }
+
+  /**
+   * The response is the only place the secret is ever returned, so a
+   * generated one must be stored by the caller now.
+   */
+  async create(createWebhookDto: CreateWebhookDto): Promise<WebhookSubscription> {
+    this.logger.debug('[WEBHOOKS_SERVICE] Creating webhook subscription', {
+      url: createWebhookDto.url,
+      events: createWebhookDto.events,
+    });
+
+    const subscription = await this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        ...createWebhookDto,
+        secret: createWebhookDto.secret ?? randomBytes(32).toString('hex'),
+        events: createWebhookDto.events ?? [],
+      }),
+    );
+
+    this.logger.info('[WEBHOOKS_SERVICE] Webhook subscription created successfully', {
+      subscriptionId: subscription.id,
+      url: subscription.url,
+    });
+    return subscription;
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    return this.subscriptionRepository.find({ order: { id: 'ASC' } });
+  }
+
+  async findOne(id: number): Promise<WebhookSubscription> {
+    this.logger.debug(`[WEBHOOKS_SERVICE] Fetching webhook subscription with ID: ${id}`, {
+      subscriptionId: id,
+    });
+    const subscription = await this.subscriptionRepository.findOne({ where: { id } });
+    if (!subscription) {
+      this.logger.warn(`[WEBHOOKS_SERVICE] Webhook subscription not found: ${id}`, {
+        subscriptionId: id,
+      });
+      throw new NotFoundException(`Webhook subscription with ID ${id} not found`);
+    }
+    return subscription;
+  }
+
+  async update(id: number, updateWebhookDto: UpdateWebhookDto): Promise<WebhookSubscription> {
+    this.logger.debug(`[WEBHOOKS_SERVICE] Updating webhook subscription with ID: ${id}`, {
+      subscriptionId: id,
+      updates: { ...updateWebhookDto, secret: undefined },
+    });
+    const subscription = await this.findOne(id);
+
+    Object.assign(subscription, updateWebhookDto);
+    await this.subscriptionRepository.save(subscription);
+
+    this.logger.info('[WEBHOOKS_SERVICE] Webhook subscription updated successfully', {
+      subscriptionId: id,
+      changes: Object.keys(updateWebhookDto),
+    });
+    return this.findOne(id);
+  }
+
+  async remove(id: number): Promise<void> {
+    this.logger.debug(`[WEBHOOKS_SERVICE] Deleting webhook subscription with ID: ${id}`, {
+      subscriptionId: id,
+    });
+    const subscription = await this.findOne(id);
+    // Its delivery log goes with it (ON DELETE CASCADE)
+    await this.subscriptionRepository.remove(subscription);
+    this.logger.info('[WEBHOOKS_SERVICE] Webhook subscription deleted successfully', {
+      subscriptionId: id,
+      url: subscription.url,
+    });
+  }
+
+  async findDeliveries(id: number): Promise<WebhookDelivery[]> {
+    await this.findOne(id);
+    return this.deliveryRepository.find({
+      where: { subscriptionId: id },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: this.DELIVERY_HISTORY_LIMIT,
+    });
+  }
+}